@@ -0,0 +1,477 @@
+import fs from 'fs'
+import path from 'path'
+import { Address, isAddress } from 'viem'
+import { parse as parseYaml } from 'yaml'
+import { LogFormat, LogLevel, parseLogFormat, parseLogLevel, parseServiceLevels } from './utils/logger.js'
+import { Severity, parseSeverity } from './services/NotificationService.js'
+import { SwapInputToken } from './services/SwapService.js'
+
+/**
+ * Bot configuration
+ *
+ * Every setting is declared once in SCHEMA with its environment variable, default and checks.
+ * Values are read from the defaults, then an optional JSON or YAML config file (CONFIG_FILE or
+ * --config <path>), then the environment; later sources win. All problems are reported together
+ * before the bot starts.
+ *
+ * The bot runs one chain from the network and wallet sections, or several when CHAIN_IDS (or a
+ * chains section in the config file) lists them; each chain then has its own endpoints and may
+ * have its own wallet, read from CHAIN_<id>_* or chains.<id>.
+ */
+
+interface Setting<T> {
+  env: string
+  parse: (value: unknown) => T
+  default?: T
+  required?: boolean
+  secret?: boolean
+}
+
+type Schema = { [key: string]: Setting<any> | Schema }
+
+type ConfigOf<S> = {
+  [K in keyof S]: S[K] extends Setting<infer T>
+    ? S[K] extends { default: any } | { required: true } ? T : T | undefined
+    : ConfigOf<S[K]>
+}
+
+// Thrown by parsers; the loader prefixes the setting name
+class InvalidValue extends Error {}
+
+function integer(min: number, max: number = Number.MAX_SAFE_INTEGER) {
+  return (value: unknown): number => {
+    const number = typeof value === 'number' ? value : /^-?\d+$/.test(String(value).trim()) ? Number(value) : NaN
+    if (!Number.isInteger(number)) {
+      throw new InvalidValue(`must be an integer, got "${value}"`)
+    }
+    if (number < min || number > max) {
+      throw new InvalidValue(max === Number.MAX_SAFE_INTEGER ? `must be at least ${min}, got ${number}` : `must be between ${min} and ${max}, got ${number}`)
+    }
+    return number
+  }
+}
+
+function bigint(min: bigint, max?: bigint) {
+  return (value: unknown): bigint => {
+    const text = String(value).trim()
+    if (!/^-?\d+$/.test(text)) {
+      throw new InvalidValue(`must be an integer, got "${value}"`)
+    }
+    const number = BigInt(text)
+    if (number < min || (max !== undefined && number > max)) {
+      throw new InvalidValue(max === undefined ? `must be at least ${min}, got ${number}` : `must be between ${min} and ${max}, got ${number}`)
+    }
+    return number
+  }
+}
+
+// Kept as a string, the form parseEther and parseGwei take
+function decimal(value: unknown): string {
+  const text = String(value).trim()
+  if (!/^\d+(\.\d+)?$/.test(text)) {
+    throw new InvalidValue(`must be a non-negative decimal number, got "${value}"`)
+  }
+  return text
+}
+
+function boolean(value: unknown): boolean {
+  if (value === true || value === 'true') return true
+  if (value === false || value === 'false') return false
+  throw new InvalidValue(`must be true or false, got "${value}"`)
+}
+
+function string(value: unknown): string {
+  const text = String(value).trim()
+  if (!text) {
+    throw new InvalidValue('must not be empty')
+  }
+  return text
+}
+
+function url(...protocols: string[]) {
+  return (value: unknown): string => {
+    const text = string(value)
+    let parsed: URL
+    try {
+      parsed = new URL(text)
+    } catch {
+      throw new InvalidValue(`must be a URL, got "${text}"`)
+    }
+    if (!protocols.includes(parsed.protocol.slice(0, -1))) {
+      throw new InvalidValue(`must be a ${protocols.join(' or ')} URL`)
+    }
+    return text
+  }
+}
+
+function address(value: unknown): Address {
+  const text = string(value)
+  if (!isAddress(text, { strict: false })) {
+    throw new InvalidValue(`must be an address, got "${text}"`)
+  }
+  return text
+}
+
+function privateKey(value: unknown): `0x${string}` {
+  const text = string(value)
+  if (!/^0x[0-9a-fA-F]{64}$/.test(text)) {
+    throw new InvalidValue('must be a 0x-prefixed 32-byte hex string')
+  }
+  return text as `0x${string}`
+}
+
+function oneOf<T extends string | number>(...allowed: T[]) {
+  return (value: unknown): T => {
+    const match = allowed.find(option => String(option) === String(value).trim())
+    if (match === undefined) {
+      throw new InvalidValue(`must be one of ${allowed.join(', ')}, got "${value}"`)
+    }
+    return match
+  }
+}
+
+// Comma-separated in the environment, a list or a comma-separated string in a config file
+function list<T>(parseItem: (value: unknown) => T) {
+  return (value: unknown): T[] => {
+    const items = Array.isArray(value) ? value : String(value).split(',').map(item => item.trim()).filter(Boolean)
+    return items.map(parseItem)
+  }
+}
+
+// One or more endpoints, tried in order of their health
+function urls(...protocols: string[]) {
+  const parse = list(url(...protocols))
+  return (value: unknown): string[] => {
+    const items = parse(value)
+    if (items.length === 0) {
+      throw new InvalidValue('must list at least one URL')
+    }
+    return items
+  }
+}
+
+// Wrap the logger's and notifier's own parsers so their errors read like the others
+function wrap<T>(parse: (value: string) => T) {
+  return (value: unknown): T => {
+    try {
+      return parse(String(value))
+    } catch (error) {
+      throw new InvalidValue(error instanceof Error ? error.message : String(error))
+    }
+  }
+}
+
+// Per-service levels as "Service=level,..." or, in a config file, a { Service: level } map
+function serviceLevels(value: unknown): Record<string, LogLevel> {
+  const text = typeof value === 'object' && value !== null
+    ? Object.entries(value).map(([service, level]) => `${service}=${level}`).join(',')
+    : String(value)
+  return wrap(parseServiceLevels)(text)
+}
+
+const severity = wrap<Severity>(parseSeverity)
+
+function alertChannel<T extends Schema>(prefix: string, settings: T) {
+  return { ...settings, minSeverity: { env: `${prefix}_MIN_SEVERITY`, parse: severity } }
+}
+
+const SCHEMA = {
+  network: {
+    chainId: { env: 'CHAIN_ID', parse: integer(1), default: 1 },
+    chainIds: { env: 'CHAIN_IDS', parse: list(integer(1)) },
+    rpcUrls: { env: 'RPC_URL', parse: urls('http', 'https'), secret: true },
+    wsRpcUrls: { env: 'WS_RPC_URL', parse: urls('ws', 'wss'), secret: true }
+  },
+  rpc: {
+    requestTimeoutMs: { env: 'RPC_REQUEST_TIMEOUT_MS', parse: integer(100), default: 10000 },
+    healthCheckIntervalMs: { env: 'RPC_HEALTH_CHECK_INTERVAL', parse: integer(1000), default: 15000 },
+    maxBlockLag: { env: 'RPC_MAX_BLOCK_LAG', parse: integer(0), default: 3 },
+    broadcastFanout: { env: 'RPC_BROADCAST_FANOUT', parse: boolean, default: false }
+  },
+  wallet: {
+    privateKey: { env: 'PRIVATE_KEY', parse: privateKey, secret: true },
+    liquidatorNftId: { env: 'LIQUIDATOR_NFT_ID', parse: bigint(0n), default: 0n }
+  },
+  etherscan: {
+    apiKey: { env: 'ETHERSCAN_API_KEY', parse: string, required: true, secret: true }
+  },
+  liquidation: {
+    minProfitThreshold: { env: 'MIN_PROFIT_THRESHOLD', parse: decimal, default: '0.01' },
+    maxConcurrent: { env: 'MAX_CONCURRENT_LIQUIDATIONS', parse: integer(1, 50), default: 3 },
+    watchlistDistanceBps: { env: 'WATCHLIST_DISTANCE_BPS', parse: bigint(0n, 10000n), default: 300n },
+    watchlistPrefetchUspd: { env: 'WATCHLIST_PREFETCH_USPD', parse: boolean, default: false },
+    watchlistPrefetchMaxUspd: { env: 'WATCHLIST_PREFETCH_MAX_USPD', parse: decimal, default: '10000' },
+    bonusPercent: { env: 'LIQUIDATION_BONUS_PERCENT', parse: integer(0, 100), default: 5 },
+    stEthDiscountBps: { env: 'STETH_DISCOUNT_BPS', parse: integer(0, 10000), default: 10 }
+  },
+  pricePolling: {
+    baseIntervalMs: { env: 'PRICE_UPDATE_INTERVAL', parse: integer(1000), default: 30000 },
+    burstIntervalMs: { env: 'PRICE_BURST_INTERVAL', parse: integer(500), default: 3000 },
+    calmIntervalMs: { env: 'PRICE_CALM_INTERVAL', parse: integer(1000), default: 60000 },
+    burstMoveBps: { env: 'PRICE_BURST_MOVE_BPS', parse: integer(1, 10000), default: 50 },
+    burstProximityBps: { env: 'PRICE_BURST_PROXIMITY_BPS', parse: integer(0, 10000), default: 200 }
+  },
+  priceChecks: {
+    sources: { env: 'PRICE_SOURCES', parse: list(oneOf('chainlink', 'uniswap')), default: ['chainlink', 'uniswap'] },
+    maxDeviationBps: { env: 'PRICE_MAX_DEVIATION_BPS', parse: integer(1, 10000), default: 200 },
+    pauseOnDeviation: { env: 'PRICE_DEVIATION_PAUSE', parse: boolean, default: true },
+    pauseWhenUnverified: { env: 'PRICE_UNVERIFIED_PAUSE', parse: boolean, default: true },
+    uniswapPoolFee: { env: 'UNISWAP_PRICE_POOL_FEE', parse: oneOf(100, 500, 3000, 10000), default: 500 },
+    maxAgeMs: { env: 'PRICE_MAX_AGE_MS', parse: integer(1000), default: 60000 }
+  },
+  positions: {
+    updateIntervalMs: { env: 'POSITION_UPDATE_INTERVAL', parse: integer(1000), default: 300000 },
+    discoveryBatchSize: { env: 'MULTICALL_DISCOVERY_BATCH_SIZE', parse: integer(1, 5000), default: 100 },
+    updateBatchSize: { env: 'MULTICALL_UPDATE_BATCH_SIZE', parse: integer(1, 5000), default: 200 },
+    storeDir: { env: 'POSITION_STORE_DIR', parse: string, default: './position-store' },
+    logBlockRange: { env: 'LOG_BLOCK_RANGE', parse: integer(100), default: 5000 }
+  },
+  gas: {
+    maxGasPriceGwei: { env: 'MAX_GAS_PRICE', parse: decimal, default: '50' },
+    profitTipPercent: { env: 'GAS_PROFIT_TIP_PERCENT', parse: integer(0, 100), default: 10 },
+    replacementBlocks: { env: 'GAS_REPLACEMENT_BLOCKS', parse: integer(1), default: 3 },
+    maxReplacements: { env: 'GAS_MAX_REPLACEMENTS', parse: integer(0, 20), default: 3 },
+    maxWaitBlocks: { env: 'GAS_MAX_WAIT_BLOCKS', parse: integer(1), default: 25 }
+  },
+  acquisition: {
+    swapInputToken: { env: 'SWAP_INPUT_TOKEN', parse: oneOf<SwapInputToken>('ETH', 'USDC'), default: 'ETH' as SwapInputToken },
+    swapSlippageBps: { env: 'SWAP_SLIPPAGE_BPS', parse: integer(0, 10000), default: 50 },
+    uniswapQuoterAddress: { env: 'UNISWAP_QUOTER_ADDRESS', parse: address }
+  },
+  logging: {
+    level: { env: 'LOG_LEVEL', parse: wrap<LogLevel>(parseLogLevel), default: 'info' as LogLevel },
+    format: { env: 'LOG_FORMAT', parse: wrap<LogFormat>(parseLogFormat), default: 'pretty' as LogFormat },
+    serviceLevels: { env: 'LOG_LEVELS', parse: serviceLevels, default: {} as Record<string, LogLevel> }
+  },
+  dryRun: {
+    enabled: { env: 'DRY_RUN', parse: boolean, default: false },
+    reportFile: { env: 'DRY_RUN_REPORT_FILE', parse: string, default: './dry-run-report.jsonl' }
+  },
+  http: {
+    port: { env: 'HTTP_PORT', parse: integer(1, 65535), default: 3000 }
+  },
+  alerts: {
+    minSeverity: { env: 'ALERT_MIN_SEVERITY', parse: severity, default: 'warning' as Severity },
+    maxPerMinute: { env: 'ALERT_RATE_LIMIT_PER_MINUTE', parse: integer(1), default: 10 },
+    dedupWindowMs: { env: 'ALERT_DEDUP_WINDOW_MS', parse: integer(0), default: 600000 },
+    slack: alertChannel('SLACK', {
+      webhookUrl: { env: 'SLACK_WEBHOOK_URL', parse: url('https'), secret: true }
+    }),
+    discord: alertChannel('DISCORD', {
+      webhookUrl: { env: 'DISCORD_WEBHOOK_URL', parse: url('https'), secret: true }
+    }),
+    telegram: alertChannel('TELEGRAM', {
+      botToken: { env: 'TELEGRAM_BOT_TOKEN', parse: string, secret: true },
+      chatId: { env: 'TELEGRAM_CHAT_ID', parse: string }
+    }),
+    webhook: alertChannel('ALERT_WEBHOOK', {
+      url: { env: 'ALERT_WEBHOOK_URL', parse: url('http', 'https'), secret: true }
+    })
+  }
+} satisfies Schema
+
+// Settings of one chain in multi-chain mode; the wallet falls back to the wallet section, the
+// endpoints and the quoter are chain-specific and do not
+function chainSchema(chainId: number, wallet: Settings['wallet']) {
+  const prefix = `CHAIN_${chainId}_`
+  return {
+    rpcUrls: { env: `${prefix}RPC_URL`, parse: urls('http', 'https'), required: true, secret: true },
+    wsRpcUrls: { env: `${prefix}WS_RPC_URL`, parse: urls('ws', 'wss'), required: true, secret: true },
+    privateKey: { env: `${prefix}PRIVATE_KEY`, parse: privateKey, secret: true, ...(wallet.privateKey ? { default: wallet.privateKey } : { required: true }) },
+    liquidatorNftId: { env: `${prefix}LIQUIDATOR_NFT_ID`, parse: bigint(0n), default: wallet.liquidatorNftId },
+    uniswapQuoterAddress: { env: `${prefix}UNISWAP_QUOTER_ADDRESS`, parse: address }
+  } satisfies Schema
+}
+
+type Settings = ConfigOf<typeof SCHEMA>
+
+/**
+ * Endpoints and wallet of one chain the bot runs on
+ */
+export interface ChainConfig {
+  chainId: number
+  rpcUrls: string[]
+  wsRpcUrls: string[]
+  privateKey: `0x${string}`
+  liquidatorNftId: bigint
+  uniswapQuoterAddress?: Address
+}
+
+export type BotConfig = Settings & { chains: ChainConfig[] }
+
+/**
+ * Build the configuration from defaults, the config file and the environment
+ *
+ * Throws one error listing every missing or invalid setting.
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env, argv: string[] = process.argv): BotConfig {
+  const configFile = argValue(argv, '--config') ?? env.CONFIG_FILE
+  const { chains: chainsFile, ...file } = configFile ? readConfigFile(configFile) : {}
+  const errors: string[] = []
+
+  const settings = resolve(SCHEMA, file, env, [], errors) as Settings
+  const config: BotConfig = { ...settings, chains: resolveChains(settings, chainsFile, env, errors) }
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration${configFile ? ` (config file ${configFile})` : ''}:\n${errors.map(error => `  - ${error}`).join('\n')}`)
+  }
+
+  // Command-line shorthands
+  if (argv.includes('--dry-run')) {
+    config.dryRun.enabled = true
+  }
+  if (argv.includes('--verbose') || env.VERBOSE_LOGGING === 'true') {
+    config.logging.level = 'debug'
+  }
+
+  return config
+}
+
+/**
+ * The configuration with secrets replaced, safe to log; URLs keep their host
+ */
+export function redactConfig(config: BotConfig): Record<string, Record<string, unknown>> {
+  const sections = redact(SCHEMA, config) as Record<string, Record<string, unknown>>
+  for (const chain of config.chains) {
+    sections[`chains.${chain.chainId}`] = { chainId: chain.chainId, ...redact(chainSchema(chain.chainId, config.wallet), { ...chain }) }
+  }
+  return sections
+}
+
+function resolveChains(settings: Settings, file: unknown, env: NodeJS.ProcessEnv, errors: string[]): ChainConfig[] {
+  const fileChains = isObject(file) ? file : {}
+  const fileChainIds = Object.keys(fileChains).filter(key => /^[1-9]\d*$/.test(key)).map(Number)
+  const chainIds = settings.network.chainIds ?? (Object.keys(fileChains).length > 0 ? fileChainIds : undefined)
+
+  if (!chainIds) {
+    const { chainId, rpcUrls, wsRpcUrls } = settings.network
+    const { privateKey, liquidatorNftId } = settings.wallet
+    // A value that failed to parse has already been reported
+    const required = (value: unknown, setting: string) => {
+      if (!value && !errors.some(error => error.startsWith(`${setting} `))) errors.push(`${setting} is required`)
+    }
+    required(rpcUrls, 'RPC_URL (network.rpcUrls)')
+    required(wsRpcUrls, 'WS_RPC_URL (network.wsRpcUrls)')
+    required(privateKey, 'PRIVATE_KEY (wallet.privateKey)')
+    if (!rpcUrls || !wsRpcUrls || !privateKey) return []
+
+    const quoter = settings.acquisition.uniswapQuoterAddress
+    return [{ chainId, rpcUrls, wsRpcUrls, privateKey, liquidatorNftId, ...(quoter && { uniswapQuoterAddress: quoter }) }]
+  }
+
+  for (const key of Object.keys(fileChains)) {
+    if (!/^[1-9]\d*$/.test(key)) {
+      errors.push(`chains.${key} in the config file must be keyed by chain ID`)
+    } else if (!chainIds.includes(Number(key))) {
+      errors.push(`chains.${key} in the config file is not one of the configured chains (${chainIds.join(', ')})`)
+    }
+  }
+  if (new Set(chainIds).size !== chainIds.length) {
+    errors.push(`CHAIN_IDS (network.chainIds) lists a chain more than once: ${chainIds.join(', ')}`)
+  }
+
+  return chainIds.map(chainId => ({
+    chainId,
+    ...resolve(chainSchema(chainId, settings.wallet), fileChains[chainId], env, ['chains', String(chainId)], errors)
+  }) as ChainConfig)
+}
+
+function resolve(schema: Schema, file: unknown, env: NodeJS.ProcessEnv, keys: string[], errors: string[]): Record<string, unknown> {
+  const fileSection = isObject(file) ? file : {}
+  const result: Record<string, unknown> = {}
+
+  for (const unknownKey of Object.keys(fileSection).filter(key => !Object.hasOwn(schema, key))) {
+    errors.push(`${[...keys, unknownKey].join('.')} in the config file is not a known setting`)
+  }
+
+  for (const [key, entry] of Object.entries(schema)) {
+    const entryKeys = [...keys, key]
+    if (!isSetting(entry)) {
+      result[key] = resolve(entry, fileSection[key], env, entryKeys, errors)
+      continue
+    }
+
+    const envValue = env[entry.env]
+    const fileValue = fileSection[key]
+    const source = envValue !== undefined && envValue !== '' ? envValue : fileValue
+
+    if (source === undefined || source === null) {
+      if (entry.required) {
+        errors.push(`${entry.env} (${entryKeys.join('.')}) is required`)
+      } else if (entry.default !== undefined) {
+        result[key] = entry.default
+      }
+      continue
+    }
+
+    try {
+      result[key] = entry.parse(source)
+    } catch (error) {
+      if (!(error instanceof InvalidValue)) throw error
+      errors.push(`${entry.env} (${entryKeys.join('.')}) ${error.message}`)
+    }
+  }
+
+  return result
+}
+
+function redact(schema: Schema, values: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = {}
+  for (const [key, entry] of Object.entries(schema)) {
+    const value = values[key]
+    if (!isSetting(entry)) {
+      result[key] = redact(entry, value as Record<string, unknown>)
+    } else if (entry.secret && value !== undefined) {
+      result[key] = Array.isArray(value) ? value.map(item => redactSecret(String(item))) : redactSecret(String(value))
+    } else {
+      result[key] = value
+    }
+  }
+  return result
+}
+
+function redactSecret(value: string): string {
+  try {
+    const parsed = new URL(value)
+    return `${parsed.protocol}//${parsed.host}/<redacted>`
+  } catch {
+    return '<redacted>'
+  }
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  let text: string
+  try {
+    text = fs.readFileSync(file, 'utf-8')
+  } catch (error) {
+    throw new Error(`Cannot read config file ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  const extension = path.extname(file).toLowerCase()
+  let parsed: unknown
+  try {
+    parsed = extension === '.json' ? JSON.parse(text) : parseYaml(text)
+  } catch (error) {
+    throw new Error(`Cannot parse config file ${file}: ${error instanceof Error ? error.message : error}`)
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {}
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`Config file ${file} must contain an object of settings`)
+  }
+  return parsed
+}
+
+function argValue(argv: string[], flag: string): string | undefined {
+  const index = argv.indexOf(flag)
+  return index !== -1 ? argv[index + 1] : undefined
+}
+
+function isSetting(entry: Setting<any> | Schema): entry is Setting<any> {
+  return typeof entry.parse === 'function'
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -1,179 +1,368 @@
 import 'dotenv/config'
-import { createPublicClient, http, createWalletClient, webSocket, Address } from 'viem'
-import { mainnet, sepolia } from 'viem/chains'
+import fs from 'fs/promises'
+import { createPublicClient, createWalletClient, parseEther, PublicClient, WalletClient, Transport, Chain, Account } from 'viem'
 import { privateKeyToAccount } from 'viem/accounts'
-import { PriceService } from './services/PriceService.js'
+import { PriceService, PriceData, PriceDeviationCheck } from './services/PriceService.js'
+import { PriceAttestationVerifier } from './services/PriceAttestationVerifier.js'
+import { ChainlinkPriceSource, UniswapPriceSource, UspdApiPriceSource } from './services/PriceSources.js'
 import { PositionService } from './services/PositionService.js'
-import { LiquidationService } from './services/LiquidationService.js'
+import { PositionEventService } from './services/PositionEventService.js'
+import { PositionStore } from './services/PositionStore.js'
+import { PricePollScheduler } from './services/PricePollScheduler.js'
+import { LiquidationService, LiquidationSimulationReport, LiquidationResult } from './services/LiquidationService.js'
+import { LiquidationQueue } from './services/LiquidationQueue.js'
 import { DeploymentService } from './services/DeploymentService.js'
 import { AbiService } from './services/AbiService.js'
-
-// Configuration - require all environment variables
-const RPC_URL = process.env.RPC_URL
-const WS_RPC_URL = process.env.WS_RPC_URL
-const PRIVATE_KEY = process.env.PRIVATE_KEY as `0x${string}`
-const ETHERSCAN_API_KEY = process.env.ETHERSCAN_API_KEY
-
-// Network configuration
-const CHAIN_ID = parseInt(process.env.CHAIN_ID || '1')
-const LIQUIDATOR_NFT_ID = BigInt(process.env.LIQUIDATOR_NFT_ID || '0')
-
-// Bot configuration
-const MIN_PROFIT_THRESHOLD = process.env.MIN_PROFIT_THRESHOLD || '0.01'
-const PRICE_UPDATE_INTERVAL = parseInt(process.env.PRICE_UPDATE_INTERVAL || '30000') // 30 seconds
-const POSITION_UPDATE_INTERVAL = parseInt(process.env.POSITION_UPDATE_INTERVAL || '300000') // 5 minutes
-const VERBOSE_LOGGING = process.env.VERBOSE_LOGGING === 'true' || process.argv.includes('--verbose')
-
-// Validate required environment variables
-if (!RPC_URL) {
-  throw new Error('RPC_URL environment variable is required')
-}
-if (!WS_RPC_URL) {
-  throw new Error('WS_RPC_URL environment variable is required')
-}
-if (!PRIVATE_KEY) {
-  throw new Error('PRIVATE_KEY environment variable is required')
-}
-if (!ETHERSCAN_API_KEY) {
-  throw new Error('ETHERSCAN_API_KEY environment variable is required')
+import { GasService } from './services/GasService.js'
+import { SwapService } from './services/SwapService.js'
+import { MintService } from './services/MintService.js'
+import { ProfitService } from './services/ProfitService.js'
+import { HttpServer, json } from './services/HttpServer.js'
+import { ApiService } from './services/ApiService.js'
+import { MetricsService, MetricsGauges, withRpcErrorMetrics } from './services/MetricsService.js'
+import { RpcPool } from './services/RpcPool.js'
+import { NotificationService, Severity } from './services/NotificationService.js'
+import { SlackChannel, DiscordChannel, TelegramChannel, WebhookChannel } from './services/NotificationChannels.js'
+import { formatBps, formatDecimal } from './utils/decimal.js'
+import { Logger } from './utils/logger.js'
+import { resolveChain } from './utils/chains.js'
+import { BotConfig, ChainConfig, loadConfig, redactConfig } from './config.js'
+
+// Defaults, then the config file (CONFIG_FILE or --config), then the environment
+let config: BotConfig
+try {
+  config = loadConfig()
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : String(error)}`)
+  process.exit(1)
 }
 
-// Determine chain
-const chain = CHAIN_ID === 11155111 ? sepolia : mainnet;
+// Every service gets this logger and scopes it to its own name and level
+const rootLogger = new Logger(config.logging)
 
-// Set up clients
-const publicClient = createPublicClient({
-  chain,
-  transport: http(RPC_URL),
-})
+// Failed RPC requests of every client are counted for /metrics
+const metrics = new MetricsService()
 
-const wsClient = createPublicClient({
-  chain,
-  transport: webSocket(WS_RPC_URL),
-})
-
-const walletClient = createWalletClient({
-  chain,
-  transport: http(RPC_URL),
-  account: privateKeyToAccount(PRIVATE_KEY),
+// Alert channels, each with its own severity threshold (<CHANNEL>_MIN_SEVERITY) and rate limit
+const notifier = new NotificationService(rootLogger)
+const channelSettings = (minSeverity?: Severity) => ({
+  minSeverity: minSeverity ?? config.alerts.minSeverity,
+  maxPerMinute: config.alerts.maxPerMinute,
+  dedupWindowMs: config.alerts.dedupWindowMs
 })
+const { slack, discord, telegram, webhook } = config.alerts
+if (slack.webhookUrl) {
+  notifier.addChannel(new SlackChannel(slack.webhookUrl), channelSettings(slack.minSeverity))
+}
+if (discord.webhookUrl) {
+  notifier.addChannel(new DiscordChannel(discord.webhookUrl), channelSettings(discord.minSeverity))
+}
+if (telegram.botToken && telegram.chatId) {
+  notifier.addChannel(new TelegramChannel(telegram.botToken, telegram.chatId), channelSettings(telegram.minSeverity))
+}
+if (webhook.url) {
+  notifier.addChannel(new WebhookChannel(webhook.url), channelSettings(webhook.minSeverity))
+}
 
-class USPDLiquidatorBot {
+/**
+ * Everything the bot runs on one chain: its clients and wallet, position tracking, price checks and
+ * liquidations. Pipelines share nothing with each other except the process-level HTTP server,
+ * metrics and alert channels, so a failing chain does not stop the others.
+ */
+class ChainPipeline {
   private isRunning = false
+  private config: BotConfig
+  private chain: ChainConfig
+  private name: string
+  private publicClient: PublicClient
+  private wsClient: PublicClient
+  private walletClient: WalletClient<Transport, Chain, Account>
+  private httpPool: RpcPool
+  private wsPool: RpcPool
   private deploymentService: DeploymentService
   private abiService: AbiService
   private priceService: PriceService
+  private gasService: GasService
   private positionService: PositionService
   private liquidationService: LiquidationService
+  private liquidationQueue?: LiquidationQueue
+  private positionEventService?: PositionEventService
+  private positionStore?: PositionStore
+  private lastProcessedBlock = 0n
+  private liquidationsPaused = false
+  private servicesReady = false
+  private lastPriceData?: PriceData
+  private lastPriceCheck?: PriceDeviationCheck
+  private httpServer: HttpServer
+  private apiPrefix: string
+  private notifier: NotificationService
+  private chainLogger: Logger
+  private logger: Logger
+  private watchlist: Set<string> = new Set()
   private priceUpdateTimer?: NodeJS.Timeout
   private positionUpdateTimer?: NodeJS.Timeout
   private contractAddresses: any
 
-  constructor() {
-    this.deploymentService = new DeploymentService()
-    this.abiService = new AbiService(ETHERSCAN_API_KEY!, CHAIN_ID)
-    this.priceService = new PriceService()
+  constructor(config: BotConfig, chainConfig: ChainConfig, deploymentService: DeploymentService, httpServer: HttpServer, apiPrefix: string) {
+    this.config = config
+    this.chain = chainConfig
+    this.deploymentService = deploymentService
+    this.httpServer = httpServer
+    this.apiPrefix = apiPrefix
+
+    const chain = resolveChain(chainConfig.chainId, chainConfig.rpcUrls[0]!)
+    this.name = chain.name
+    this.chainLogger = rootLogger.child({ chainId: chainConfig.chainId })
+    this.logger = this.chainLogger.forService('LiquidatorBot')
+    this.notifier = notifier.scoped(this.name)
+
+    // Reads, subscriptions and broadcasts fail over between the configured endpoints
+    this.httpPool = new RpcPool('http', chainConfig.rpcUrls, config.rpc, this.chainLogger)
+    this.wsPool = new RpcPool('websocket', chainConfig.wsRpcUrls, config.rpc, this.chainLogger)
+
+    this.publicClient = createPublicClient({
+      chain,
+      transport: withRpcErrorMetrics(this.httpPool.transport(), metrics, chainConfig.chainId, 'http'),
+    })
+    this.wsClient = createPublicClient({
+      chain,
+      transport: withRpcErrorMetrics(this.wsPool.transport(), metrics, chainConfig.chainId, 'websocket'),
+    })
+    this.walletClient = createWalletClient({
+      chain,
+      transport: withRpcErrorMetrics(this.httpPool.transport(), metrics, chainConfig.chainId, 'wallet'),
+      account: privateKeyToAccount(chainConfig.privateKey),
+    })
+
+    this.abiService = new AbiService(this.config.etherscan.apiKey, this.chain.chainId, this.chainLogger)
+    this.priceService = new PriceService(new UspdApiPriceSource(), [], this.config.priceChecks.maxDeviationBps, this.chainLogger)
+    this.priceService.setNotifier(this.notifier)
+    this.gasService = new GasService(this.publicClient, this.walletClient, config.gas, this.chainLogger)
     // Services will be initialized after fetching contract addresses
   }
 
+  get chainId(): number {
+    return this.chain.chainId
+  }
+
   async start() {
-    console.log('🚀 Starting USPD Liquidator Bot...')
+    this.logger.info(`🚀 Starting ${this.name} pipeline...`, { liquidatorNftId: this.chain.liquidatorNftId, wallet: this.walletClient.account.address })
     this.isRunning = true
 
     try {
+      // Probe every endpoint before the first request picks one
+      await Promise.all([this.httpPool.start(), this.wsPool.start()])
+
       // Initialize services
       await this.initializeServices()
 
       // Start monitoring loops
       await this.startMonitoring()
 
-      console.log('✅ USPD Liquidator Bot started successfully')
+      this.logger.info(`✅ ${this.name} pipeline started`)
     } catch (error) {
-      console.error('❌ Failed to start bot:', error)
+      this.logger.error(`❌ Failed to start ${this.name} pipeline`, { error })
+      await this.stop()
       throw error
     }
   }
 
   async stop() {
-    console.log('🛑 Stopping USPD Liquidator Bot...')
+    this.logger.info(`🛑 Stopping ${this.name} pipeline...`)
     this.isRunning = false
 
     // Clear timers
     if (this.priceUpdateTimer) {
-      clearInterval(this.priceUpdateTimer)
+      clearTimeout(this.priceUpdateTimer)
     }
     if (this.positionUpdateTimer) {
       clearInterval(this.positionUpdateTimer)
     }
+    this.httpPool.stop()
+    this.wsPool.stop()
 
     // Stop event watchers
     this.eventUnwatchers.forEach(unwatch => {
       try {
         unwatch()
       } catch (error) {
-        console.error('❌ Error stopping event watcher:', error)
+        this.logger.error('❌ Error stopping event watcher', { error })
       }
     })
 
-    console.log('✅ Bot stopped successfully')
+    // Persist positions for the next warm restart
+    await this.savePositionStore()
   }
 
   private async initializeServices() {
-    console.log('🔧 Initializing services...')
+    this.logger.info('🔧 Initializing services...')
 
-    // Fetch contract deployments
-    console.log('📡 Fetching USPD contract deployments...')
-    await this.deploymentService.fetchDeployments()
-    this.contractAddresses = this.deploymentService.getContractAddresses(CHAIN_ID)
+    // A misconfigured endpoint would otherwise read another chain's contracts
+    const rpcChainId = await this.publicClient.getChainId()
+    if (rpcChainId !== this.chain.chainId) {
+      throw new Error(`RPC endpoint for chain ${this.chain.chainId} serves chain ${rpcChainId}`)
+    }
+
+    this.contractAddresses = this.deploymentService.getContractAddresses(this.chain.chainId)
     
-    console.log('📋 Contract addresses:')
-    console.log(`  Stabilizer NFT: ${this.contractAddresses.stabilizerNft}`)
-    console.log(`  USPD Token: ${this.contractAddresses.uspdToken}`)
-    console.log(`  Oracle: ${this.contractAddresses.oracle}`)
+    this.logger.info('📋 Contract addresses', {
+      stabilizerNft: this.contractAddresses.stabilizerNft,
+      uspdToken: this.contractAddresses.uspdToken,
+      oracle: this.contractAddresses.oracle
+    })
+
+    // Reject tampered, replayed or foreign price attestations before anything uses them
+    this.priceService.setAttestationVerifier(
+      new PriceAttestationVerifier(this.publicClient, this.contractAddresses.oracle, this.config.priceChecks.maxAgeMs, this.chainLogger)
+    )
+
+    // Reference price sources, used to catch a lagging or wrong signed price
+    for (const source of this.config.priceChecks.sources) {
+      if (source === 'chainlink') {
+        this.priceService.addReferenceSource(new ChainlinkPriceSource(this.publicClient, this.contractAddresses.chainlinkAggregator))
+      } else if (source === 'uniswap') {
+        this.priceService.addReferenceSource(new UniswapPriceSource(this.publicClient, this.contractAddresses.uniswapRouter, this.contractAddresses.usdcAddress, this.config.priceChecks.uniswapPoolFee))
+      }
+    }
 
     // Initialize services with contract addresses
     this.positionService = new PositionService(
-      publicClient, 
+      this.publicClient, 
       this.contractAddresses.stabilizerNft,
       this.contractAddresses.stabilizerImpl,
       this.contractAddresses.positionEscrowImpl,
       this.contractAddresses.rateContract,
       this.abiService,
-      LIQUIDATOR_NFT_ID
+      this.chain.liquidatorNftId,
+      this.config.positions,
+      this.chainLogger
     )
     
+    const swapService = new SwapService(
+      this.publicClient,
+      this.abiService,
+      this.priceService,
+      this.contractAddresses.uniswapRouter,
+      this.contractAddresses.uspdToken,
+      this.contractAddresses.usdcAddress,
+      this.config.acquisition.swapInputToken,
+      this.config.acquisition.swapSlippageBps,
+      this.chain.uniswapQuoterAddress
+    )
+
+    const mintService = new MintService(
+      this.publicClient,
+      this.abiService,
+      this.priceService,
+      this.contractAddresses.uspdToken
+    )
+
+    const profitService = new ProfitService(
+      this.publicClient,
+      this.gasService,
+      this.priceService,
+      this.contractAddresses.stabilizerNft,
+      this.contractAddresses.stETHAddress,
+      this.contractAddresses.insuranceEscrow,
+      this.walletClient.account.address,
+      this.chain.liquidatorNftId,
+      this.config.liquidation.bonusPercent,
+      this.config.liquidation.stEthDiscountBps,
+      this.chainLogger
+    )
+
     this.liquidationService = new LiquidationService(
-      publicClient,
-      walletClient,
+      this.publicClient,
+      this.walletClient,
       this.contractAddresses.stabilizerNft,
+      this.contractAddresses.stabilizerImpl,
       this.contractAddresses.uspdToken,
+      this.contractAddresses.cuspdToken,
       this.priceService,
-      MIN_PROFIT_THRESHOLD
+      this.abiService,
+      this.gasService,
+      swapService,
+      mintService,
+      profitService,
+      this.chain.liquidatorNftId,
+      this.config.liquidation.minProfitThreshold,
+      this.chainLogger
     )
 
-    // Get initial block number
-    const blockNumber = await publicClient.getBlockNumber()
-    console.log(`📊 Current block: ${blockNumber}`)
+    // Candidates are ranked by expected profit and liquidated up to MAX_CONCURRENT_LIQUIDATIONS at a time
+    this.liquidationQueue = new LiquidationQueue(
+      this.liquidationService,
+      this.config.liquidation.maxConcurrent,
+      (position, result) => {
+        metrics.recordLiquidation(this.chain.chainId, result)
+        this.logLiquidationResult(position.nftId, result)
+      },
+      this.chainLogger
+    )
+
+    // Keep cached positions in sync with escrow, stabilizer and rate contract events
+    this.positionEventService = new PositionEventService(
+      this.wsClient,
+      this.positionService,
+      this.abiService,
+      this.contractAddresses.stabilizerNft,
+      this.contractAddresses.stabilizerImpl,
+      this.contractAddresses.rateContract,
+      this.config.positions.logBlockRange,
+      this.chainLogger
+    )
 
-    // Initialize position tracking
-    console.log('🔍 Discovering and initializing positions...')
-    await this.positionService.initializePositions()
+    this.positionStore = new PositionStore(this.chain.chainId, this.contractAddresses.stabilizerNft, this.config.positions.storeDir, this.chainLogger)
+
+    // Alerts for liquidatable positions, liquidation outcomes and failing subscriptions
+    this.positionService.setNotifier(this.notifier)
+    this.liquidationService.setNotifier(this.notifier)
+    this.positionEventService.setNotifier(this.notifier)
+
+    // Get initial block number
+    const blockNumber = await this.publicClient.getBlockNumber()
+    this.logger.info('📊 Current block', { block: blockNumber })
+
+    // Initialize position tracking, from the store when a previous run left one behind
+    const snapshot = await this.positionStore.load()
+    if (snapshot) {
+      this.logger.info(`📦 Warm restart from block ${snapshot.lastProcessedBlock} (saved ${new Date(snapshot.savedAt).toISOString()})`)
+      await this.positionService.restoreState(snapshot)
+      await this.positionEventService.replay(snapshot.lastProcessedBlock, blockNumber)
+    } else {
+      this.logger.info('🔍 Discovering and initializing positions...')
+      const tokenIds = await this.positionEventService.discoverTokenIds(this.contractAddresses.deploymentTimestamp, blockNumber)
+      await this.positionService.initializePositions(tokenIds)
+    }
+    this.lastProcessedBlock = blockNumber
 
     // Get initial price data and update positions
     const priceData = await this.priceService.getCurrentEthPrice()
-    const ethPrice = this.priceService.priceToNumber(priceData)
-    console.log(`💰 Current ETH price: $${ethPrice.toFixed(2)}`)
+    this.logger.info(`💰 Current ETH price: $${this.priceService.formatPrice(priceData)}`)
+
+    this.lastPriceData = priceData
 
     // Update all positions with current price
     await this.positionService.updateAllPositions(priceData)
+    this.positionStore.recordRatios(this.positionService.getAllActivePositions())
+    await this.savePositionStore()
 
     // Log position statistics
     const stats = this.positionService.getPositionStats()
-    console.log(`📊 Position stats: ${stats.active} active, ${stats.liquidatable} liquidatable, avg ratio: ${stats.averageCollateralization.toFixed(2)}%`)
+    this.logger.info(`📊 Position stats: ${stats.active} active, ${stats.liquidatable} liquidatable, avg ratio: ${formatBps(stats.averageCollateralizationBps)}%`)
+
+    // Read-only JSON API over positions, price and liquidations, next to /health and /metrics
+    new ApiService(this.positionService, this.priceService, this.liquidationQueue, {
+      getPriceData: () => this.lastPriceData,
+      getPriceCheck: () => this.lastPriceCheck,
+      isLiquidationPaused: () => this.liquidationsPaused
+    }, this.positionStore).register(this.httpServer, this.apiPrefix)
+
+    this.servicesReady = true
   }
 
   private async startMonitoring() {
-    console.log('👀 Starting monitoring loops...')
+    this.logger.info('👀 Starting monitoring loops...')
 
     // Start price monitoring
     this.startPriceMonitoring()
@@ -183,47 +372,71 @@ class USPDLiquidatorBot {
 
     // Watch for blockchain events
     await this.startEventWatching()
-
-    // Handle graceful shutdown
-    this.setupGracefulShutdown()
   }
 
   private startPriceMonitoring() {
-    console.log(`📈 Starting price monitoring (interval: ${PRICE_UPDATE_INTERVAL}ms)`)
-    
-    this.priceUpdateTimer = setInterval(async () => {
-      if (!this.isRunning) return
+    this.logger.info(`📈 Starting price monitoring (interval: ${this.config.pricePolling.burstIntervalMs}-${this.config.pricePolling.calmIntervalMs}ms, normally ${this.config.pricePolling.baseIntervalMs}ms)`)
 
-      try {
-        const priceData = await this.priceService.getCurrentEthPrice()
-        const ethPrice = this.priceService.priceToNumber(priceData)
-        
-        if (!this.priceService.isPriceDataFresh(priceData)) {
-          console.warn('⚠️ Price data is stale')
-        }
+    const scheduler = new PricePollScheduler(this.config.pricePolling, this.chainLogger)
 
-        // Log verbose information if enabled
-        if (VERBOSE_LOGGING) {
-          console.log(`💰 Current ETH price: $${ethPrice.toFixed(2)}`)
-          
-          // Get and log position statistics
-          const stats = this.positionService.getPositionStats()
-          console.log(`📊 Position stats: ${stats.active} active, ${stats.liquidatable} liquidatable, avg ratio: ${stats.averageCollateralization.toFixed(2)}%`)
-          
-          // Log individual position details
-          this.logPositionDetails()
-        }
+    // Each tick is scheduled only after the previous one finished, so slow ticks never overlap
+    const tick = async () => {
+      if (!this.isRunning) return
 
-        // Check for liquidation opportunities when price updates
-        await this.checkLiquidationOpportunities(priceData)
+      let nextInterval = this.config.pricePolling.baseIntervalMs
+      try {
+        const priceData = await this.runPriceTick()
+        nextInterval = scheduler.nextInterval(
+          this.priceService.priceToWad(priceData),
+          this.positionService.getClosestLiquidationDistanceBps(priceData)
+        )
       } catch (error) {
-        console.error('❌ Price monitoring error:', error)
+        this.logger.error('❌ Price monitoring error', { error })
       }
-    }, PRICE_UPDATE_INTERVAL)
+
+      if (this.isRunning) {
+        this.priceUpdateTimer = setTimeout(tick, nextInterval)
+      }
+    }
+
+    this.priceUpdateTimer = setTimeout(tick, this.config.pricePolling.baseIntervalMs)
+  }
+
+  private async runPriceTick(): Promise<PriceData> {
+    const priceData = await this.priceService.getCurrentEthPrice()
+    this.lastPriceData = priceData
+
+    await this.checkPriceDeviation(priceData)
+
+    // Log verbose information at debug level
+    if (this.logger.isLevelEnabled('debug')) {
+      this.logger.debug(`💰 Current ETH price: $${this.priceService.formatPrice(priceData)}`)
+      
+      // Get and log position statistics
+      const stats = this.positionService.getPositionStats()
+      this.logger.debug(`📊 Position stats: ${stats.active} active, ${stats.liquidatable} liquidatable, avg ratio: ${formatBps(stats.averageCollateralizationBps)}%`)
+      
+      // Log individual position details
+      this.logPositionDetails(priceData)
+    }
+
+    // Recompute every ratio locally, then confirm only the flagged positions on-chain
+    const newlyLiquidatable = this.positionService.recalculatePositions(priceData)
+    if (newlyLiquidatable.length > 0) {
+      this.logger.info(`📉 ${newlyLiquidatable.length} positions crossed their liquidation threshold at $${this.priceService.formatPrice(priceData)}`)
+    }
+    await this.positionService.confirmLiquidatablePositions(priceData)
+
+    this.updateWatchlist(priceData)
+
+    // Check for liquidation opportunities when price updates
+    await this.checkLiquidationOpportunities(priceData)
+
+    return priceData
   }
 
   private startPositionMonitoring() {
-    console.log(`📊 Starting position monitoring (interval: ${POSITION_UPDATE_INTERVAL}ms)`)
+    this.logger.info(`📊 Starting position monitoring (interval: ${this.config.positions.updateIntervalMs}ms)`)
     
     this.positionUpdateTimer = setInterval(async () => {
       if (!this.isRunning) return
@@ -233,65 +446,56 @@ class USPDLiquidatorBot {
         const priceData = await this.priceService.getCurrentEthPrice()
         
         // Update all positions
-        console.log('🔄 Updating all position data...')
+        this.logger.info('🔄 Updating all position data...')
         await this.positionService.updateAllPositions(priceData)
+        this.positionStore?.recordRatios(this.positionService.getAllActivePositions())
+        await this.savePositionStore()
         
         // Log updated statistics
         const stats = this.positionService.getPositionStats()
-        console.log(`📊 Updated positions: ${stats.active} active, ${stats.liquidatable} liquidatable, avg: ${stats.averageCollateralization.toFixed(2)}%`)
+        this.logger.info(`📊 Updated positions: ${stats.active} active, ${stats.liquidatable} liquidatable, avg: ${formatBps(stats.averageCollateralizationBps)}%`)
         
       } catch (error) {
-        console.error('❌ Position monitoring error:', error)
+        this.logger.error('❌ Position monitoring error', { error })
+        this.notifier.notify({
+          type: 'positions.update_failed',
+          severity: 'error',
+          title: 'Position update cycle failed',
+          message: error instanceof Error ? error.message : String(error)
+        })
       }
-    }, POSITION_UPDATE_INTERVAL)
+    }, this.config.positions.updateIntervalMs)
   }
 
   private async startEventWatching() {
-    console.log('🎧 Starting blockchain event monitoring...')
+    this.logger.info('🎧 Starting blockchain event monitoring...')
     
     // Watch for new blocks
-    const unwatch = wsClient.watchBlocks({
+    const unwatch = this.wsClient.watchBlocks({
       onBlock: (block) => {
         if (!this.isRunning) return
+        this.lastProcessedBlock = block.number
         
         // Log every 100th block to avoid spam
         if (block.number % 100n === 0n) {
-          console.log(`📦 Block ${block.number} (${new Date().toISOString()})`)
+          this.logger.info('📦 New block', { block: block.number })
         }
       },
       onError: (error) => {
-        console.error('❌ Block watching error:', error)
+        this.logger.error('❌ Block watching error', { error })
+        this.notifier.notify({
+          type: 'websocket.error',
+          severity: 'error',
+          title: 'WebSocket subscription failed: block watcher',
+          message: error.message,
+          key: 'websocket.error'
+        })
       }
     })
 
-    // Watch for new Stabilizer NFT positions - we'll get the ABI from implementation
-    const stabilizerAbi = await this.abiService.getContractAbi(this.contractAddresses.stabilizerImpl);
-    const positionCreatedEvent = stabilizerAbi.find(item => 
-      item.type === 'event' && item.name === 'StabilizerPositionCreated'
-    );
-
-    if (positionCreatedEvent) {
-      const unwatchNFTCreation = wsClient.watchContractEvent({
-        address: this.contractAddresses.stabilizerNft,
-        abi: [positionCreatedEvent],
-        eventName: 'StabilizerPositionCreated',
-        onLogs: (logs) => {
-          logs.forEach(async (log) => {
-            const { tokenId, owner } = log.args;
-            console.log(`➕ New Stabilizer Position created: ${tokenId} owned by ${owner}`);
-            if (tokenId) {
-              await this.positionService.addPosition(tokenId);
-            }
-          });
-        },
-        onError: (error) => {
-          console.error('❌ NFT creation event error:', error)
-        }
-      })
-      
-      // Store unwatcher for cleanup
-      this.eventUnwatchers.push(unwatchNFTCreation)
-    }
+    // Keep cached positions in sync with escrow, stabilizer and rate contract events
+    await this.positionEventService?.start()
+    this.eventUnwatchers.push(() => this.positionEventService?.stop())
 
     // Store unwatchers for cleanup
     this.eventUnwatchers.push(unwatch)
@@ -299,21 +503,121 @@ class USPDLiquidatorBot {
 
   private eventUnwatchers: (() => void)[] = []
 
-  private logPositionDetails() {
+  async getReadinessChecks() {
+    // A price may be up to one calm polling interval older than the attestation age limit
+    const priceFresh = this.lastPriceData !== undefined &&
+      this.priceService.isPriceDataFresh(this.lastPriceData, this.config.pricePolling.calmIntervalMs + this.config.priceChecks.maxAgeMs)
+
+    return {
+      servicesInitialized: this.isRunning && this.servicesReady,
+      rpcHealthy: this.httpPool.hasHealthyEndpoint(),
+      websocketConnected: await this.wsPool.isConnected(),
+      priceFresh
+    }
+  }
+
+  async collectGauges(): Promise<MetricsGauges> {
+    const stats = this.servicesReady ? this.positionService.getPositionStats() : undefined
+    const account = this.walletClient.account.address
+
+    const [ethBalance, uspdBalance] = await Promise.allSettled([
+      this.publicClient.getBalance({ address: account }),
+      this.servicesReady ? this.liquidationService.getUspdBalance() : Promise.reject(new Error('Services not initialized'))
+    ])
+
+    return {
+      chainId: this.chain.chainId,
+      rpcEndpoints: [...this.httpPool.getStatus(), ...this.wsPool.getStatus()],
+      ...(this.lastPriceData && {
+        priceAgeSeconds: (Date.now() - this.lastPriceData.dataTimestamp) / 1000,
+        ethPriceWad: this.priceService.priceToWad(this.lastPriceData)
+      }),
+      positionsTotal: stats?.total ?? 0,
+      positionsActive: stats?.active ?? 0,
+      positionsLiquidatable: stats?.liquidatable ?? 0,
+      positionsWatched: this.watchlist.size,
+      liquidationsInFlight: this.liquidationQueue?.getInFlightCount() ?? 0,
+      liquidationsPaused: this.liquidationsPaused,
+      ...(ethBalance.status === 'fulfilled' && { walletEthBalance: ethBalance.value }),
+      ...(uspdBalance.status === 'fulfilled' && { walletUspdBalance: uspdBalance.value })
+    }
+  }
+
+  private async savePositionStore() {
+    // Until positions are loaded there is nothing to save, and an empty snapshot would replace the last good one
+    if (!this.positionStore || this.lastProcessedBlock === 0n) return
+
+    try {
+      await this.positionStore.save(this.positionService.exportState(), this.lastProcessedBlock)
+    } catch (error) {
+      this.logger.error('❌ Failed to save position store', { error })
+    }
+  }
+
+  private async checkPriceDeviation(priceData: PriceData) {
+    const check = await this.priceService.checkPriceDeviation(priceData)
+    this.lastPriceCheck = check
+    const sources = check.sources.map(source => `${source.source} $${formatDecimal(source.priceWad, 18, 2)}`).join(', ')
+
+    if (!check.verified) {
+      this.logger.warn(`⚠️ Signed price could not be cross-checked, no reference source answered (failed: ${check.failedSources.join(', ') || 'none configured'})`)
+    } else if (!check.withinBand) {
+      this.logger.warn(`🚨 Signed price deviates ${formatBps(check.deviationBps!)}% from the reference median $${formatDecimal(check.referencePriceWad!, 18, 2)} (${sources})`)
+    } else {
+      this.logger.debug(`🔎 Signed price within ${formatBps(check.deviationBps!)}% of the reference median (${sources})`)
+    }
+
+    const paused = check.verified
+      ? this.config.priceChecks.pauseOnDeviation && !check.withinBand
+      : this.config.priceChecks.pauseWhenUnverified
+    if (paused !== this.liquidationsPaused) {
+      this.logger.warn(paused ? '⏸️ Liquidations paused until the signed price is confirmed within the deviation band' : '▶️ Liquidations resumed, signed price is confirmed within the deviation band')
+      this.liquidationsPaused = paused
+    }
+  }
+
+  private updateWatchlist(priceData: PriceData) {
+    const positions = this.positionService.getWatchlist(priceData, this.config.liquidation.watchlistDistanceBps)
+    const ids = new Set(positions.map(position => position.nftId.toString()))
+    const added = positions.filter(position => !this.watchlist.has(position.nftId.toString()))
+    const removed = Array.from(this.watchlist).filter(id => !ids.has(id))
+    this.watchlist = ids
+
+    if (added.length === 0 && removed.length === 0) return
+
+    for (const position of added) {
+      const distance = this.positionService.getLiquidationDistanceBps(position, priceData)
+      this.logger.info(`👁️ Watching position: ${formatBps(distance ?? 0n)}% above its liquidation price $${formatDecimal(position.liquidationPriceWad, 18, 2)}`, { nftId: position.nftId })
+    }
+    if (removed.length > 0) {
+      this.logger.info(`👁️ Positions ${removed.join(', ')} left the watchlist`)
+    }
+
+    // Approve and fund ahead of time so the liquidation can go out on the tick the price crosses; the
+    // queue holds liquidations back while this runs, so the price tick itself does not wait for it
+    if (added.length > 0 && !this.config.dryRun.enabled) {
+      const { watchlistPrefetchUspd, watchlistPrefetchMaxUspd } = this.config.liquidation
+      void this.liquidationQueue?.prepare(positions, priceData, watchlistPrefetchUspd ? parseEther(watchlistPrefetchMaxUspd) : undefined)
+    }
+  }
+
+  private logPositionDetails(priceData: PriceData) {
     const positions = this.positionService.getAllActivePositions()
     
     if (positions.length === 0) {
-      console.log('📋 No active positions to display')
+      this.logger.debug('📋 No active positions to display')
       return
     }
 
-    console.log('📋 Active Position Details:')
+    this.logger.debug('📋 Active Position Details:')
     positions.forEach(position => {
-      const status = position.isLiquidatable ? '🔴 LIQUIDATABLE' : '🟢 HEALTHY'
-      const collateralEth = (Number(position.collateralAmount) / 1e18).toFixed(4)
-      const debtUspd = (Number(position.uspdDebt) / 1e18).toFixed(2)
+      const status = position.isLiquidatable ? '🔴 LIQUIDATABLE' : this.watchlist.has(position.nftId.toString()) ? '🟡 WATCHED' : '🟢 HEALTHY'
+      const collateralEth = formatDecimal(position.collateralAmount, 18, 4)
+      const debtUspd = formatDecimal(position.uspdDebt, 18, 2)
+      const distance = this.positionService.getLiquidationDistanceBps(position, priceData)
+      const liquidation = `Liq. price: $${formatDecimal(position.liquidationPriceWad, 18, 2)} (${distance !== undefined ? `${formatBps(distance)}% away` : 'crossed'})`
       
-      console.log(`  NFT #${position.nftId}: ${status} | Ratio: ${position.collateralizationRatio.toFixed(2)}% | Collateral: ${position.collateralAmount} (${collateralEth} ETH) | Debt: ${position.uspdDebt} (${debtUspd} USPD)`)
+      this.logger.debug(`  ${status} | Ratio: ${formatBps(position.collateralizationRatioBps)}% | ${liquidation} | Collateral: ${position.collateralAmount} (${collateralEth} ETH) | Debt: ${position.uspdDebt} (${debtUspd} USPD)`, { nftId: position.nftId })
     })
   }
 
@@ -322,37 +626,173 @@ class USPDLiquidatorBot {
       const liquidatablePositions = this.positionService.getLiquidatablePositions()
       
       if (liquidatablePositions.length === 0) {
+        this.liquidationQueue?.clear()
+        return
+      }
+
+      this.logger.info(`🎯 Found ${liquidatablePositions.length} liquidatable positions`)
+
+      if (this.liquidationsPaused) {
+        this.logger.warn('⏸️ Skipping liquidations while the signed price deviates from the reference sources or cannot be checked')
+        this.liquidationQueue?.clear()
         return
       }
 
-      console.log(`🎯 Found ${liquidatablePositions.length} liquidatable positions`)
-
-      // Process liquidations (limit concurrent liquidations)
-      const maxConcurrentLiquidations = 3
-      const positionsToProcess = liquidatablePositions.slice(0, maxConcurrentLiquidations)
-
-      for (const position of positionsToProcess) {
-        try {
-          const result = await this.liquidationService.liquidatePosition(position, priceData)
-          
-          if (result.success) {
-            console.log(`✅ Successfully liquidated position ${position.nftId}`)
-            console.log(`💰 Profit: ${result.profit} ETH`)
-          } else {
-            console.log(`❌ Failed to liquidate position ${position.nftId}: ${result.error}`)
-          }
-        } catch (error) {
-          console.error(`❌ Liquidation error for position ${position.nftId}:`, error)
+      if (this.config.dryRun.enabled) {
+        // Nothing is broadcast, so every candidate can be simulated
+        for (const position of liquidatablePositions) {
+          const report = await this.liquidationService.simulateLiquidation(position, priceData)
+          await this.writeDryRunReport(report)
         }
+        return
+      }
+
+      // Re-rank against the new price; the best candidates start as liquidation slots free up
+      await this.liquidationQueue?.update(liquidatablePositions, priceData)
+    } catch (error) {
+      this.logger.error('❌ Error checking liquidation opportunities', { error })
+    }
+  }
+
+  private logLiquidationResult(nftId: bigint, result: LiquidationResult) {
+    const logger = this.logger.child({ nftId, ...(result.txHash && { txHash: result.txHash }) })
+    if (result.success) {
+      logger.info('✅ Successfully liquidated position')
+      logger.info(`💰 Profit: ${result.profit} ETH | Collateral received: ${result.collateralReceived ?? 'unknown'} | Gas used: ${result.gasUsed}`)
+      if (result.acquisitionRoute) {
+        logger.info(`💱 USPD acquired via ${result.acquisitionRoute} for ${result.acquisitionCost} wei`)
       }
+    } else {
+      const reason = result.revertReason ? ` (revert: ${result.revertReason})` : ''
+      logger.warn(`❌ Failed to liquidate position: ${result.error}${reason}`)
+    }
+  }
+
+  private async writeDryRunReport(report: LiquidationSimulationReport) {
+    const outcome = report.wouldSucceed ? '✅ would succeed' : `❌ would revert (${report.revertReason ?? report.error})`
+    const logger = this.logger.child({ nftId: report.nftId })
+    logger.info(`🧪 Dry-run report: ${outcome}`)
+    logger.info(`  Ratio: ${formatBps(report.collateralizationRatioBps)}% | Shares: ${report.sharesToLiquidate} | Required USPD: ${report.requiredUspd}`)
+    logger.info(`  USPD balance sufficient: ${report.hasEnoughUspd} | cUSPD allowance sufficient: ${report.hasCuspdAllowance}`)
+    logger.info(`  Expected profit: ${report.expectedProfit} wei (meets threshold: ${report.meetsProfitThreshold}) | Estimated gas: ${report.estimatedGas ?? 'n/a'}`)
+    if (report.returnValue !== undefined) {
+      logger.info(`  Return value: ${JSON.stringify(report.returnValue, (_, value) => typeof value === 'bigint' ? value.toString() : value)}`)
+    }
+
+    try {
+      const line = JSON.stringify({ chainId: this.chain.chainId, ...report }, (_, value) => typeof value === 'bigint' ? value.toString() : value)
+      await fs.appendFile(this.config.dryRun.reportFile, line + '\n')
     } catch (error) {
-      console.error('❌ Error checking liquidation opportunities:', error)
+      logger.error('❌ Failed to write dry-run report', { error })
+    }
+  }
+}
+
+/**
+ * The process: one pipeline per configured chain behind a shared HTTP server, metrics and alerts
+ */
+class USPDLiquidatorBot {
+  private config: BotConfig
+  private deploymentService = new DeploymentService(rootLogger)
+  private httpServer: HttpServer
+  private pipelines: ChainPipeline[]
+  private failedChainIds: number[] = []
+  private logger = rootLogger.forService('LiquidatorBot')
+
+  constructor(config: BotConfig) {
+    this.config = config
+    this.httpServer = new HttpServer(config.http.port, '0.0.0.0', rootLogger)
+
+    // A single chain keeps the API at the root; with several, each chain is served under /chains/<id>
+    const multiChain = config.chains.length > 1
+    this.pipelines = config.chains.map(chain =>
+      new ChainPipeline(config, chain, this.deploymentService, this.httpServer, multiChain ? `/chains/${chain.chainId}` : '')
+    )
+  }
+
+  async start() {
+    this.logger.info('🚀 Starting USPD Liquidator Bot...', { chainIds: this.config.chains.map(chain => chain.chainId).join(',') })
+    for (const [section, values] of Object.entries(redactConfig(this.config))) {
+      this.logger.info(`⚙️ Config ${section}`, values)
+    }
+    if (this.config.dryRun.enabled) {
+      this.logger.info(`🧪 Dry-run mode: liquidations are simulated only, reports go to ${this.config.dryRun.reportFile}`)
+    }
+
+    // Serve /health right away; /ready reports when the pipelines are up
+    await this.startHttpServer()
+
+    // Every chain's addresses come from the same deployments list
+    this.logger.info('📡 Fetching USPD contract deployments...')
+    await this.deploymentService.fetchDeployments()
+
+    // A chain that fails to start is reported and left out; the others keep running
+    const results = await Promise.allSettled(this.pipelines.map(pipeline => pipeline.start()))
+    const running: ChainConfig[] = []
+    results.forEach((result, index) => {
+      const chain = this.config.chains[index]!
+      if (result.status === 'fulfilled') {
+        running.push(chain)
+        return
+      }
+      this.failedChainIds.push(chain.chainId)
+      notifier.notify({
+        type: 'chain.start_failed',
+        severity: 'critical',
+        title: `Chain ${chain.chainId} failed to start`,
+        message: result.reason instanceof Error ? result.reason.message : String(result.reason)
+      })
+    })
+    if (running.length === 0) {
+      throw new Error('No chain could be started')
     }
+
+    this.setupGracefulShutdown()
+
+    this.logger.info(`✅ USPD Liquidator Bot started on ${running.length} of ${this.pipelines.length} chains`)
+    notifier.notify({
+      type: 'bot.started',
+      severity: 'info',
+      title: 'Liquidator bot started',
+      message: running.map(chain => `Chain ${chain.chainId}, liquidator NFT ${chain.liquidatorNftId}`).join('\n') + (this.config.dryRun.enabled ? '\nDry-run mode' : '')
+    })
+  }
+
+  async stop() {
+    this.logger.info('🛑 Stopping USPD Liquidator Bot...')
+
+    await Promise.all(this.pipelines.map(pipeline => pipeline.stop()))
+    await this.httpServer.stop()
+
+    notifier.notify({ type: 'bot.stopped', severity: 'info', title: 'Liquidator bot stopped', message: `Chains ${this.config.chains.map(chain => chain.chainId).join(', ')}` })
+    await notifier.flush()
+
+    this.logger.info('✅ Bot stopped successfully')
+  }
+
+  private async startHttpServer() {
+    this.httpServer
+      .route('/health', () => json(200, { status: 'ok' }))
+      .route('/ready', async () => {
+        // Chains that failed to start are listed but do not hold back the ones that run
+        const pipelines = this.pipelines.filter(pipeline => !this.failedChainIds.includes(pipeline.chainId))
+        const checks = await Promise.all(pipelines.map(pipeline => pipeline.getReadinessChecks()))
+        const ready = checks.every(chainChecks => Object.values(chainChecks).every(Boolean))
+        const chains = Object.fromEntries(pipelines.map((pipeline, index) => [pipeline.chainId, checks[index]]))
+        return json(ready ? 200 : 503, { ready, chains, failedChains: this.failedChainIds })
+      })
+      .route('/metrics', async () => ({
+        status: 200,
+        body: metrics.render(await Promise.all(this.pipelines.map(pipeline => pipeline.collectGauges()))),
+        contentType: 'text/plain; version=0.0.4'
+      }))
+
+    await this.httpServer.start()
   }
 
   private setupGracefulShutdown() {
     const shutdown = async (signal: string) => {
-      console.log(`\n🔄 Received ${signal}, shutting down gracefully...`)
+      this.logger.info(`🔄 Received ${signal}, shutting down gracefully...`)
       await this.stop()
       process.exit(0)
     }
@@ -364,11 +804,18 @@ class USPDLiquidatorBot {
 
 // Start the bot
 async function main() {
-  const bot = new USPDLiquidatorBot()
+  const bot = new USPDLiquidatorBot(config)
   await bot.start()
 }
 
-main().catch((error) => {
-  console.error('💥 Fatal error:', error)
+main().catch(async (error) => {
+  rootLogger.error('💥 Fatal error', { error })
+  notifier.notify({
+    type: 'bot.crashed',
+    severity: 'critical',
+    title: 'Liquidator bot crashed',
+    message: error instanceof Error ? error.message : String(error)
+  })
+  await notifier.flush()
   process.exit(1)
 })
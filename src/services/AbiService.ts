@@ -2,6 +2,7 @@ import fs from 'fs/promises';
 import path from 'path';
 import { Address } from 'viem';
 import { EtherscanResponse } from '../types/etherscan.js';
+import { Logger } from '../utils/logger.js';
 
 export interface ContractAbi {
   address: Address;
@@ -12,11 +13,15 @@ export interface ContractAbi {
 export class AbiService {
   private readonly etherscanApiKey: string;
   private readonly chainId: number;
-  private readonly abiCacheDir = './abi-cache';
+  private readonly abiCacheDir: string;
+  private logger: Logger;
 
-  constructor(etherscanApiKey: string, chainId: number) {
+  constructor(etherscanApiKey: string, chainId: number, logger: Logger = new Logger()) {
     this.etherscanApiKey = etherscanApiKey;
     this.chainId = chainId;
+    // One directory per chain, as the same address can hold different contracts on different chains
+    this.abiCacheDir = path.join('./abi-cache', String(chainId));
+    this.logger = logger.forService('AbiService');
   }
 
   /**
@@ -32,12 +37,12 @@ export class AbiService {
       // Try to load from cache first
       const cachedAbi = await this.loadFromCache(cacheFile);
       if (cachedAbi) {
-        console.log(`📋 Using cached ABI for ${address}`);
+        this.logger.debug('📋 Using cached ABI', { address });
         return cachedAbi.abi;
       }
 
       // Fetch from Etherscan
-      console.log(`🔍 Fetching ABI for ${address} from Etherscan...`);
+      this.logger.info('🔍 Fetching ABI from Etherscan...', { address });
       const abi = await this.fetchAbiFromEtherscan(address);
       
       // Cache the result
@@ -45,7 +50,7 @@ export class AbiService {
       
       return abi;
     } catch (error) {
-      console.error(`❌ Failed to get ABI for ${address}:`, error);
+      this.logger.error('❌ Failed to get ABI', { address, error });
       throw error;
     }
   }
@@ -129,7 +134,7 @@ export class AbiService {
     const cacheFile = this.getCacheFilePath(address);
     try {
       await fs.unlink(cacheFile);
-      console.log(`🗑️ Cleared cache for ${address}`);
+      this.logger.info('🗑️ Cleared ABI cache', { address });
     } catch {
       // File doesn't exist, nothing to do
     }
@@ -146,9 +151,9 @@ export class AbiService {
           .filter(file => file.endsWith('.json'))
           .map(file => fs.unlink(path.join(this.abiCacheDir, file)))
       );
-      console.log('🗑️ Cleared all ABI cache');
+      this.logger.info('🗑️ Cleared all ABI cache');
     } catch (error) {
-      console.error('❌ Failed to clear ABI cache:', error);
+      this.logger.error('❌ Failed to clear ABI cache', { error });
     }
   }
 }
@@ -0,0 +1,233 @@
+import { Address, isAddress } from 'viem';
+import { HttpServer, HttpResponse, json } from './HttpServer.js';
+import { PositionService, StabilizerPosition } from './PositionService.js';
+import { PositionStore } from './PositionStore.js';
+import { PriceData, PriceDeviationCheck, PriceService } from './PriceService.js';
+import { LiquidationQueue } from './LiquidationQueue.js';
+import { compare } from '../utils/decimal.js';
+
+/**
+ * Bot state the API reports that no service owns
+ */
+export interface ApiStateProvider {
+  getPriceData(): PriceData | undefined;
+  getPriceCheck(): PriceDeviationCheck | undefined;
+  isLiquidationPaused(): boolean;
+}
+
+const SORT_KEYS: Record<string, (position: StabilizerPosition) => bigint> = {
+  nftId: position => position.nftId,
+  ratio: position => position.collateralizationRatioBps,
+  debt: position => position.uspdDebt,
+  collateral: position => position.collateralAmount,
+  liquidationPrice: position => position.liquidationPriceWad,
+  lastUpdated: position => BigInt(position.lastUpdated)
+};
+
+const DEFAULT_LIQUIDATION_LIMIT = 50;
+
+// Rejected query parameters; answered with 400 instead of 500
+class BadRequestError extends Error {}
+
+/**
+ * Read-only JSON endpoints over the monitored positions, the price and recent liquidations
+ *
+ * All amounts are returned as they are held in memory, with bigints serialized as decimal strings.
+ */
+export class ApiService {
+  private positionService: PositionService;
+  private priceService: PriceService;
+  private liquidationQueue: LiquidationQueue;
+  private state: ApiStateProvider;
+  private positionStore?: PositionStore;
+
+  constructor(
+    positionService: PositionService,
+    priceService: PriceService,
+    liquidationQueue: LiquidationQueue,
+    state: ApiStateProvider,
+    positionStore?: PositionStore
+  ) {
+    this.positionService = positionService;
+    this.priceService = priceService;
+    this.liquidationQueue = liquidationQueue;
+    this.state = state;
+    if (positionStore) {
+      this.positionStore = positionStore;
+    }
+  }
+
+  /**
+   * Serve the endpoints under a path prefix, e.g. /chains/1 for one chain of several
+   */
+  register(server: HttpServer, prefix: string = ''): void {
+    server
+      .route(`${prefix}/positions`, url => this.handle(() => this.listPositions(url.searchParams)))
+      .route(`${prefix}/positions/:nftId`, (_, params) => this.handle(() => this.getPosition(params.nftId!)))
+      .route(`${prefix}/stats`, () => this.handle(() => this.getStats()))
+      .route(`${prefix}/price`, () => this.handle(() => this.getPrice()))
+      .route(`${prefix}/liquidations`, url => this.handle(() => this.getLiquidations(url.searchParams)));
+  }
+
+  /**
+   * GET /positions?liquidatable=&owner=&minRatioBps=&maxRatioBps=&includeInactive=&sort=&order=&limit=&offset=
+   */
+  private listPositions(query: URLSearchParams): HttpResponse {
+    const liquidatable = parseBoolean(query, 'liquidatable');
+    const includeInactive = parseBoolean(query, 'includeInactive') ?? false;
+    const owner = parseAddress(query, 'owner');
+    const minRatioBps = parseBigint(query, 'minRatioBps');
+    const maxRatioBps = parseBigint(query, 'maxRatioBps');
+    const limit = parseBigint(query, 'limit');
+    const offset = parseBigint(query, 'offset') ?? 0n;
+
+    const sort = query.get('sort') ?? 'nftId';
+    const sortKey = Object.hasOwn(SORT_KEYS, sort) ? SORT_KEYS[sort] : undefined;
+    if (!sortKey) {
+      throw new BadRequestError(`Unknown sort "${sort}", expected one of ${Object.keys(SORT_KEYS).join(', ')}`);
+    }
+    const order = query.get('order') ?? 'asc';
+    if (order !== 'asc' && order !== 'desc') {
+      throw new BadRequestError(`Unknown order "${order}", expected asc or desc`);
+    }
+
+    const positions = this.positionService.getAllPositions()
+      .filter(position => includeInactive || position.backedShares > 0n)
+      .filter(position => liquidatable === undefined || position.isLiquidatable === liquidatable)
+      .filter(position => owner === undefined || position.owner.toLowerCase() === owner.toLowerCase())
+      .filter(position => minRatioBps === undefined || position.collateralizationRatioBps >= minRatioBps)
+      .filter(position => maxRatioBps === undefined || position.collateralizationRatioBps <= maxRatioBps)
+      .sort((a, b) => order === 'asc' ? compare(sortKey(a), sortKey(b)) : compare(sortKey(b), sortKey(a)));
+
+    const start = Number(offset);
+    const page = positions.slice(start, limit !== undefined ? start + Number(limit) : undefined);
+
+    return json(200, {
+      total: positions.length,
+      count: page.length,
+      positions: page.map(position => this.toPositionJson(position))
+    });
+  }
+
+  /**
+   * GET /positions/:nftId, with the recorded ratio history
+   */
+  private getPosition(nftIdParam: string): HttpResponse {
+    if (!/^\d+$/.test(nftIdParam)) {
+      throw new BadRequestError(`Invalid NFT ID "${nftIdParam}"`);
+    }
+
+    const nftId = BigInt(nftIdParam);
+    const position = this.positionService.getPosition(nftId);
+    if (!position) {
+      return json(404, { error: `Position ${nftId} is not monitored` });
+    }
+
+    return json(200, {
+      ...this.toPositionJson(position),
+      ratioHistory: this.positionStore?.getRatioHistory(nftId) ?? []
+    });
+  }
+
+  /**
+   * GET /stats
+   */
+  private getStats(): HttpResponse {
+    const history = this.liquidationQueue.getHistory();
+
+    return json(200, {
+      positions: this.positionService.getPositionStats(),
+      liquidations: {
+        ranked: this.liquidationQueue.getRanking().length,
+        inFlight: this.liquidationQueue.getInFlightCount(),
+        recentAttempts: history.length,
+        recentSucceeded: history.filter(record => record.result.success).length,
+        paused: this.state.isLiquidationPaused()
+      }
+    });
+  }
+
+  /**
+   * GET /price, the last accepted signed price and how it compared with the reference sources
+   */
+  private getPrice(): HttpResponse {
+    const priceData = this.state.getPriceData();
+    if (!priceData) {
+      return json(503, { error: 'No price received yet' });
+    }
+
+    return json(200, {
+      ...priceData,
+      priceWad: this.priceService.priceToWad(priceData),
+      priceUsd: this.priceService.formatPrice(priceData),
+      ageMs: Date.now() - priceData.dataTimestamp,
+      deviationCheck: this.state.getPriceCheck() ?? null
+    });
+  }
+
+  /**
+   * GET /liquidations?limit=, the current ranking and the most recent attempts
+   */
+  private getLiquidations(query: URLSearchParams): HttpResponse {
+    const limit = Number(parseBigint(query, 'limit') ?? BigInt(DEFAULT_LIQUIDATION_LIMIT));
+
+    return json(200, {
+      inFlight: this.liquidationQueue.getInFlightCount(),
+      ranking: this.liquidationQueue.getRanking().map(({ position, ...candidate }) => ({
+        nftId: position.nftId,
+        ...candidate
+      })),
+      recent: this.liquidationQueue.getHistory().slice(0, limit)
+    });
+  }
+
+  private toPositionJson(position: StabilizerPosition) {
+    const priceData = this.state.getPriceData();
+    const distance = priceData ? this.positionService.getLiquidationDistanceBps(position, priceData) : undefined;
+    return { ...position, liquidationDistanceBps: distance ?? null };
+  }
+
+  private handle(handler: () => HttpResponse): HttpResponse {
+    try {
+      return handler();
+    } catch (error) {
+      if (error instanceof BadRequestError) {
+        return json(400, { error: error.message });
+      }
+      throw error;
+    }
+  }
+}
+
+function parseBoolean(query: URLSearchParams, name: string): boolean | undefined {
+  const value = query.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (value !== 'true' && value !== 'false') {
+    throw new BadRequestError(`Query parameter ${name} must be true or false`);
+  }
+  return value === 'true';
+}
+
+function parseBigint(query: URLSearchParams, name: string): bigint | undefined {
+  const value = query.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new BadRequestError(`Query parameter ${name} must be a non-negative integer`);
+  }
+  return BigInt(value);
+}
+
+function parseAddress(query: URLSearchParams, name: string): Address | undefined {
+  const value = query.get(name);
+  if (value === null) {
+    return undefined;
+  }
+  if (!isAddress(value, { strict: false })) {
+    throw new BadRequestError(`Query parameter ${name} must be an address`);
+  }
+  return value;
+}
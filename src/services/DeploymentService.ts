@@ -1,4 +1,5 @@
 import { Address } from 'viem';
+import { Logger } from '../utils/logger.js';
 
 export interface USPDDeployment {
   chainId: number;
@@ -37,6 +38,11 @@ export interface USPDDeployment {
 export class DeploymentService {
   private readonly deploymentsApiUrl = 'https://uspd.io/api/deployments';
   private deployments: USPDDeployment[] = [];
+  private logger: Logger;
+
+  constructor(logger: Logger = new Logger()) {
+    this.logger = logger.forService('DeploymentService');
+  }
 
   async fetchDeployments(): Promise<USPDDeployment[]> {
     try {
@@ -48,7 +54,7 @@ export class DeploymentService {
       this.deployments = await response.json();
       return this.deployments;
     } catch (error) {
-      console.error('❌ Failed to fetch deployments:', error);
+      this.logger.error('❌ Failed to fetch deployments', { error });
       throw error;
     }
   }
@@ -75,6 +81,9 @@ export class DeploymentService {
       rateContract: deployment.deployment.contracts.rateContract,
       stETHAddress: deployment.deployment.config.stETHAddress,
       uniswapRouter: deployment.deployment.config.uniswapRouter,
+      usdcAddress: deployment.deployment.config.usdcAddress,
+      chainlinkAggregator: deployment.deployment.config.chainlinkAggregator,
+      deploymentTimestamp: deployment.metadata.deploymentTimestamp,
     };
   }
 }
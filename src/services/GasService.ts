@@ -0,0 +1,318 @@
+import {
+  PublicClient,
+  WalletClient,
+  Address,
+  Hash,
+  Hex,
+  TransactionReceipt,
+  parseGwei,
+  formatGwei
+} from 'viem';
+import { compare, max, min } from '../utils/decimal.js';
+import { Logger } from '../utils/logger.js';
+
+export interface GasSettings {
+  maxGasPriceGwei: string;       // Hard cap on maxFeePerGas
+  feeHistoryBlocks: number;      // Blocks sampled by eth_feeHistory
+  profitTipPercent: number;      // Share of expected profit offered as extra priority fee
+  replacementBlocks: number;     // Blocks to wait before replacing a pending transaction
+  maxReplacements: number;       // Speed-ups attempted before cancelling
+  maxWaitBlocks: number;         // Blocks after the first broadcast before waiting is given up
+}
+
+export interface FeeEstimate {
+  baseFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  capped: boolean;
+}
+
+export interface PendingTransaction {
+  hash: Hash;
+  nonce: number;
+  to: Address;
+  data: Hex;
+  value: bigint;
+  gas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  sentAtBlock: bigint;
+}
+
+export interface ConfirmationResult {
+  hash: Hash;
+  receipt?: TransactionReceipt;
+  replacements: number;
+  cancelled: boolean;
+  timedOut: boolean;             // Nothing was mined within maxWaitBlocks
+}
+
+const DEFAULT_GAS_SETTINGS: GasSettings = {
+  maxGasPriceGwei: '50',
+  feeHistoryBlocks: 10,
+  profitTipPercent: 10,
+  replacementBlocks: 3,
+  maxReplacements: 3,
+  maxWaitBlocks: 25
+};
+
+// Nodes reject same-nonce replacements that do not raise both fees by at least 10%
+const REPLACEMENT_BUMP_PERCENT = 20n;
+const CANCEL_GAS_LIMIT = 21000n;
+
+export class GasService {
+  private publicClient: PublicClient;
+  private walletClient: WalletClient;
+  private settings: GasSettings;
+  private maxGasPrice: bigint;
+  private logger: Logger;
+
+  constructor(
+    publicClient: PublicClient,
+    walletClient: WalletClient,
+    settings: Partial<GasSettings> = {},
+    logger: Logger = new Logger()
+  ) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.settings = { ...DEFAULT_GAS_SETTINGS, ...settings };
+    this.maxGasPrice = parseGwei(this.settings.maxGasPriceGwei);
+    this.logger = logger.forService('GasService');
+  }
+
+  /**
+   * Estimate EIP-1559 fees from recent blocks, capped at MAX_GAS_PRICE
+   *
+   * The priority fee is raised by a share of the expected profit spread over the gas limit,
+   * so more lucrative liquidations bid more aggressively for inclusion.
+   */
+  async estimateFees(expectedProfit: bigint = 0n, gasLimit: bigint = 0n): Promise<FeeEstimate> {
+    const feeHistory = await this.publicClient.getFeeHistory({
+      blockCount: this.settings.feeHistoryBlocks,
+      rewardPercentiles: [50]
+    });
+
+    // The last entry is the base fee of the next (pending) block
+    const baseFeePerGas = feeHistory.baseFeePerGas[feeHistory.baseFeePerGas.length - 1] ?? 0n;
+
+    const rewards = (feeHistory.reward ?? [])
+      .map(blockRewards => blockRewards[0] ?? 0n)
+      .sort(compare);
+    const networkTip = rewards[Math.floor(rewards.length / 2)] ?? parseGwei('1');
+
+    const profitTip = gasLimit > 0n && expectedProfit > 0n
+      ? (expectedProfit * BigInt(this.settings.profitTipPercent)) / 100n / gasLimit
+      : 0n;
+
+    let maxPriorityFeePerGas = networkTip + profitTip;
+    // Leave room for the base fee to double before the transaction becomes unincludable
+    let maxFeePerGas = baseFeePerGas * 2n + maxPriorityFeePerGas;
+    let capped = false;
+
+    if (maxFeePerGas > this.maxGasPrice) {
+      maxFeePerGas = this.maxGasPrice;
+      capped = true;
+    }
+    if (maxPriorityFeePerGas > maxFeePerGas) {
+      maxPriorityFeePerGas = maxFeePerGas;
+    }
+
+    return { baseFeePerGas, maxPriorityFeePerGas, maxFeePerGas, capped };
+  }
+
+  /**
+   * Whether the network base fee alone already exceeds MAX_GAS_PRICE
+   */
+  isAboveCap(fees: FeeEstimate): boolean {
+    return fees.baseFeePerGas > this.maxGasPrice;
+  }
+
+  /**
+   * Format fee parameters for logging
+   */
+  formatFees(fees: Pick<FeeEstimate, 'maxFeePerGas' | 'maxPriorityFeePerGas'>): string {
+    return `maxFee ${formatGwei(fees.maxFeePerGas)} gwei, tip ${formatGwei(fees.maxPriorityFeePerGas)} gwei`;
+  }
+
+  /**
+   * Sign and broadcast a transaction with the given fees
+   */
+  async sendTransaction(
+    tx: { to: Address; data: Hex; value?: bigint; gas: bigint; nonce?: number },
+    fees: Pick<FeeEstimate, 'maxFeePerGas' | 'maxPriorityFeePerGas'>
+  ): Promise<PendingTransaction> {
+    const account = this.walletClient.account;
+    if (!account) {
+      throw new Error('Wallet client has no account configured');
+    }
+
+    const nonce = tx.nonce ?? await this.publicClient.getTransactionCount({
+      address: account.address,
+      blockTag: 'pending'
+    });
+    const value = tx.value ?? 0n;
+
+    const sentAtBlock = await this.publicClient.getBlockNumber();
+    const hash = await this.walletClient.sendTransaction({
+      account,
+      chain: this.walletClient.chain,
+      to: tx.to,
+      data: tx.data,
+      value,
+      gas: tx.gas,
+      nonce,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+    });
+
+    return {
+      hash,
+      nonce,
+      to: tx.to,
+      data: tx.data,
+      value,
+      gas: tx.gas,
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      sentAtBlock
+    };
+  }
+
+  /**
+   * Wait for a pending transaction, speeding it up or cancelling it if it is not mined in time
+   *
+   * Every hash sent for the nonce is checked, since an earlier attempt can still be mined
+   * after a replacement was broadcast. Waiting ends without a receipt once maxWaitBlocks have
+   * passed, so a cancellation that is never mined does not hold the caller forever.
+   */
+  async waitForConfirmation(
+    pending: PendingTransaction,
+    onReplaced?: (replacement: PendingTransaction) => void
+  ): Promise<ConfirmationResult> {
+    const hashes: Hash[] = [pending.hash];
+    let current = pending;
+    let replacements = 0;
+    let cancelled = false;
+
+    while (true) {
+      for (const hash of hashes) {
+        const receipt = await this.getReceipt(hash);
+        if (receipt) {
+          return { hash, receipt, replacements, cancelled: cancelled && hash === current.hash, timedOut: false };
+        }
+      }
+
+      const blockNumber = await this.publicClient.getBlockNumber();
+
+      // Another transaction took the nonce (e.g. sent from elsewhere) and none of ours was mined
+      const confirmedNonce = await this.publicClient.getTransactionCount({
+        address: this.walletClient.account!.address,
+        blockTag: 'latest'
+      });
+      if (confirmedNonce > pending.nonce) {
+        const receipts = await Promise.all(hashes.map(hash => this.getReceipt(hash)));
+        const index = receipts.findIndex(receipt => receipt !== undefined);
+        if (index !== -1) {
+          const hash = hashes[index]!;
+          return { hash, receipt: receipts[index]!, replacements, cancelled: cancelled && hash === current.hash, timedOut: false };
+        }
+        this.logger.warn('⚠️ Nonce was used by another transaction', { nonce: pending.nonce, txHash: current.hash });
+        return { hash: current.hash, replacements, cancelled, timedOut: false };
+      }
+
+      if (blockNumber - pending.sentAtBlock >= BigInt(this.settings.maxWaitBlocks)) {
+        this.logger.warn(`⌛ Transaction not mined within ${this.settings.maxWaitBlocks} blocks, giving up`, { nonce: pending.nonce, txHash: current.hash });
+        return { hash: current.hash, replacements, cancelled, timedOut: true };
+      }
+
+      // Once cancelled there is nothing left to do but wait for the cancellation to be mined
+      if (!cancelled && blockNumber - current.sentAtBlock >= BigInt(this.settings.replacementBlocks)) {
+        if (replacements < this.settings.maxReplacements && this.bumpFee(current.maxFeePerGas) <= this.maxGasPrice) {
+          current = await this.speedUp(current);
+          replacements++;
+        } else {
+          current = await this.cancel(current);
+          cancelled = true;
+        }
+        hashes.push(current.hash);
+        onReplaced?.(current);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.publicClient.pollingInterval));
+    }
+  }
+
+  /**
+   * Wait, without a deadline, until a nonce has been used on-chain, e.g. after waitForConfirmation
+   * gave up on its transaction; returns the receipt if one of our hashes used it
+   */
+  async waitForNonce(nonce: number, hashes: Hash[]): Promise<TransactionReceipt | undefined> {
+    while (true) {
+      try {
+        const confirmedNonce = await this.publicClient.getTransactionCount({
+          address: this.walletClient.account!.address,
+          blockTag: 'latest'
+        });
+        if (confirmedNonce > nonce) {
+          const receipts = await Promise.all(hashes.map(hash => this.getReceipt(hash)));
+          return receipts.find(receipt => receipt !== undefined);
+        }
+      } catch (error) {
+        this.logger.debug('🔁 Could not read the confirmed nonce, retrying', { nonce, error });
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.publicClient.pollingInterval));
+    }
+  }
+
+  /**
+   * Re-send the same transaction with bumped fees
+   */
+  private async speedUp(pending: PendingTransaction): Promise<PendingTransaction> {
+    const network = await this.estimateFees();
+    const maxPriorityFeePerGas = max(this.bumpFee(pending.maxPriorityFeePerGas), network.maxPriorityFeePerGas);
+    const maxFeePerGas = min(
+      max(this.bumpFee(pending.maxFeePerGas), network.maxFeePerGas),
+      this.maxGasPrice
+    );
+    const fees = { maxFeePerGas, maxPriorityFeePerGas: min(maxPriorityFeePerGas, maxFeePerGas) };
+
+    this.logger.info(`⏫ Speeding up transaction: ${this.formatFees(fees)}`, { txHash: pending.hash, nonce: pending.nonce });
+    return this.sendTransaction(
+      { to: pending.to, data: pending.data, value: pending.value, gas: pending.gas, nonce: pending.nonce },
+      fees
+    );
+  }
+
+  /**
+   * Replace a pending transaction with a zero-value self-transfer
+   *
+   * The cancellation may exceed MAX_GAS_PRICE: a stuck nonce blocks every later liquidation,
+   * and the 21k gas transfer is cheap compared to that.
+   */
+  private async cancel(pending: PendingTransaction): Promise<PendingTransaction> {
+    const fees = {
+      maxFeePerGas: this.bumpFee(pending.maxFeePerGas),
+      maxPriorityFeePerGas: this.bumpFee(pending.maxPriorityFeePerGas)
+    };
+
+    this.logger.warn(`🚫 Cancelling transaction: ${this.formatFees(fees)}`, { txHash: pending.hash, nonce: pending.nonce });
+    return this.sendTransaction(
+      { to: this.walletClient.account!.address, data: '0x', value: 0n, gas: CANCEL_GAS_LIMIT, nonce: pending.nonce },
+      fees
+    );
+  }
+
+  private async getReceipt(hash: Hash): Promise<TransactionReceipt | undefined> {
+    try {
+      return await this.publicClient.getTransactionReceipt({ hash });
+    } catch {
+      // Not mined yet
+      return undefined;
+    }
+  }
+
+  private bumpFee(fee: bigint): bigint {
+    return fee + (fee * REPLACEMENT_BUMP_PERCENT) / 100n + 1n;
+  }
+}
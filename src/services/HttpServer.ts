@@ -0,0 +1,163 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Logger } from '../utils/logger.js';
+
+export interface HttpResponse {
+  status: number;
+  body: string;
+  contentType?: string;
+}
+
+export type RouteHandler = (
+  url: URL,
+  params: Record<string, string>,
+  request: IncomingMessage
+) => HttpResponse | Promise<HttpResponse>;
+
+// Paths that are not valid URLs or whose escapes cannot be decoded; answered with 400 instead of 500
+class MalformedPathError extends Error {}
+
+interface Route {
+  segments: string[];
+  handler: RouteHandler;
+}
+
+/**
+ * Minimal embedded HTTP server for the bot's operational endpoints; only GET routes are served
+ */
+export class HttpServer {
+  private port: number;
+  private host: string;
+  private routes: Route[] = [];
+  private server?: http.Server;
+  private logger: Logger;
+
+  constructor(port: number = 3000, host: string = '0.0.0.0', logger: Logger = new Logger()) {
+    this.port = port;
+    this.host = host;
+    this.logger = logger.forService('HttpServer');
+  }
+
+  /**
+   * Serve GET requests for a path; segments starting with ':' match any value and are passed
+   * to the handler as params (e.g. /positions/:nftId)
+   */
+  route(path: string, handler: RouteHandler): this {
+    this.routes.push({ segments: splitPath(path), handler });
+    return this;
+  }
+
+  async start(): Promise<void> {
+    const server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        this.logger.error(`❌ HTTP ${request.method} ${request.url} could not be answered`, { error });
+        response.destroy();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.server = server;
+    this.logger.info(`🌐 HTTP server listening on ${this.host}:${this.port}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    delete this.server;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    let result: HttpResponse;
+    try {
+      // The Host header is client input, so paths are resolved against a fixed base
+      const url = parseUrl(request.url ?? '/');
+      const match = this.match(url.pathname);
+      if (!match) {
+        result = json(404, { error: `No route for ${url.pathname}` });
+      } else if (request.method !== 'GET' && request.method !== 'HEAD') {
+        result = json(405, { error: `Method ${request.method} not allowed` });
+      } else {
+        result = await match.route.handler(url, match.params, request);
+      }
+    } catch (error) {
+      if (error instanceof MalformedPathError) {
+        result = json(400, { error: error.message });
+      } else {
+        this.logger.error(`❌ HTTP ${request.method} ${request.url} failed`, { error });
+        result = json(500, { error: error instanceof Error ? error.message : 'Internal error' });
+      }
+    }
+
+    response.writeHead(result.status, { 'Content-Type': result.contentType ?? 'application/json' });
+    response.end(request.method === 'HEAD' ? undefined : result.body);
+  }
+
+  /**
+   * Find the route matching a path and extract its params
+   */
+  private match(pathname: string): { route: Route; params: Record<string, string> } | undefined {
+    const segments = splitPath(pathname);
+
+    for (const route of this.routes) {
+      if (route.segments.length !== segments.length) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      const matches = route.segments.every((segment, index) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = decodeSegment(segments[index]!);
+          return true;
+        }
+        return segment === segments[index];
+      });
+
+      if (matches) {
+        return { route, params };
+      }
+    }
+
+    return undefined;
+  }
+}
+
+function splitPath(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function parseUrl(path: string): URL {
+  try {
+    return new URL(path, 'http://localhost');
+  } catch {
+    throw new MalformedPathError(`Malformed request path: ${path}`);
+  }
+}
+
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new MalformedPathError(`Malformed path segment: ${segment}`);
+  }
+}
+
+/**
+ * Build a JSON response; bigints are written as decimal strings
+ */
+export function json(status: number, body: unknown): HttpResponse {
+  return {
+    status,
+    body: JSON.stringify(body, (_, value) => typeof value === 'bigint' ? value.toString() : value),
+    contentType: 'application/json'
+  };
+}
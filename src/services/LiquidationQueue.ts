@@ -0,0 +1,288 @@
+import { StabilizerPosition } from './PositionService.js';
+import { PriceData } from './PriceService.js';
+import { LiquidationService, LiquidationResult } from './LiquidationService.js';
+import { BPS, compare, formatBps, formatTokenAmount, max, min, mulDiv } from '../utils/decimal.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * A liquidatable position with its expected profit and share of the USPD balance
+ */
+export interface LiquidationCandidate {
+  position: StabilizerPosition;
+  expectedProfit: bigint;   // Net profit in ETH wei, before any USPD acquisition cost
+  confidenceBps: bigint;    // How likely the expected profit is realized, 10000 = certain
+  score: bigint;            // expectedProfit weighted by confidence, used for ranking
+  allocatedUspd: bigint;    // USPD from the wallet balance reserved for this liquidation
+  shortfallUspd: bigint;    // USPD that still has to be acquired
+}
+
+/**
+ * A finished liquidation attempt
+ */
+export interface LiquidationRecord {
+  nftId: bigint;
+  startedAt: number;
+  finishedAt: number;
+  expectedProfit: bigint;
+  confidenceBps: bigint;
+  allocatedUspd: bigint;
+  result: LiquidationResult;
+}
+
+export type LiquidationResultHandler = (position: StabilizerPosition, result: LiquidationResult) => void;
+
+// Confidence deductions, in basis points
+const GAS_NOT_ESTIMATED_PENALTY_BPS = 1500n;  // The liquidation call could not be simulated yet
+const ACQUISITION_PENALTY_BPS = 2000n;        // USPD must be bought or minted first
+const THIN_MARGIN_PENALTY_BPS = 3000n;        // Full deduction for a ratio right at the threshold
+
+// Positions less than this far below their threshold may recover before the transaction lands
+const THIN_MARGIN_BPS = 100n;
+
+// Finished attempts kept for the API
+const MAX_HISTORY = 100;
+
+/**
+ * Ranks liquidatable positions by confidence-weighted profit and runs the best of them,
+ * up to a fixed number at a time
+ *
+ * Every price tick re-ranks the candidates that are not in flight against the new price. Whenever a
+ * liquidation finishes, the freed slot goes to the best candidate of the latest ranking. The wallet's
+ * USPD is split across candidates in rank order, so concurrent liquidations never count on the same
+ * tokens; whatever a candidate is not allotted is acquired before it is liquidated.
+ *
+ * Funding watchlisted positions ahead of time draws on the same wallet, so it runs through the queue
+ * too. It never holds liquidations back: the USPD allotted to ranked and in-flight candidates is
+ * left out of what it counts as available, and the candidates are re-ranked against the larger
+ * balance once it is done.
+ */
+export class LiquidationQueue {
+  private liquidationService: LiquidationService;
+  private maxConcurrent: number;
+  private onResult?: LiquidationResultHandler;
+  private ranking: LiquidationCandidate[] = [];
+  private inFlight: Map<string, LiquidationCandidate> = new Map();
+  private positions: StabilizerPosition[] = [];
+  private priceData?: PriceData;
+  private preparing = false;
+  private history: LiquidationRecord[] = [];
+  private logger: Logger;
+
+  constructor(
+    liquidationService: LiquidationService,
+    maxConcurrent: number = 3,
+    onResult?: LiquidationResultHandler,
+    logger: Logger = new Logger()
+  ) {
+    this.liquidationService = liquidationService;
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+    if (onResult) {
+      this.onResult = onResult;
+    }
+    this.logger = logger.forService('LiquidationQueue');
+  }
+
+  /**
+   * Re-rank the liquidatable positions at a new price and start liquidations in any free slots
+   */
+  async update(positions: StabilizerPosition[], priceData: PriceData): Promise<void> {
+    this.positions = positions;
+    this.priceData = priceData;
+
+    const ranking = await this.rank(
+      positions.filter(position => !this.inFlight.has(position.nftId.toString())),
+      priceData
+    );
+
+    // A slot may have been refilled from the previous ranking while this one was computed
+    this.ranking = ranking.filter(candidate => !this.inFlight.has(candidate.position.nftId.toString()));
+    this.logRanking();
+    this.fillSlots();
+  }
+
+  /**
+   * Approve and fund watchlisted positions ahead of time (see LiquidationService.prepareLiquidations)
+   *
+   * Skipped while a previous preparation is running. Liquidations keep starting meanwhile; the
+   * USPD allotted to them is reserved, and they are re-ranked as soon as the purchase is done so
+   * that candidates still short of USPD can use it.
+   */
+  async prepare(positions: StabilizerPosition[], priceData: PriceData, maxUspd?: bigint): Promise<void> {
+    if (this.preparing) {
+      return;
+    }
+
+    this.preparing = true;
+    try {
+      await this.liquidationService.prepareLiquidations(positions, priceData, maxUspd, () => this.allocatedUspd());
+    } finally {
+      this.preparing = false;
+    }
+
+    if (this.positions.length > 0 && this.priceData) {
+      await this.update(this.positions, this.priceData);
+    }
+  }
+
+  /**
+   * Drop the current ranking, e.g. when nothing is liquidatable anymore; in-flight liquidations continue
+   */
+  clear(): void {
+    this.ranking = [];
+    this.positions = [];
+  }
+
+  getRanking(): LiquidationCandidate[] {
+    return [...this.ranking];
+  }
+
+  getInFlightCount(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Recently finished liquidation attempts, newest first
+   */
+  getHistory(): LiquidationRecord[] {
+    return [...this.history].reverse();
+  }
+
+  /**
+   * Estimate every candidate, split the free USPD balance in rank order and sort by score
+   */
+  private async rank(positions: StabilizerPosition[], priceData: PriceData): Promise<LiquidationCandidate[]> {
+    if (positions.length === 0) {
+      return [];
+    }
+
+    const candidates: LiquidationCandidate[] = [];
+    for (const position of positions) {
+      try {
+        const breakdown = await this.liquidationService.estimateProfit(position, priceData);
+        if (breakdown.netProfitEth <= 0n) {
+          continue;
+        }
+
+        let confidenceBps = BPS;
+        if (!breakdown.gasEstimated) {
+          confidenceBps -= GAS_NOT_ESTIMATED_PENALTY_BPS;
+        }
+        const marginBps = max(position.liquidationThresholdBps - position.collateralizationRatioBps, 0n);
+        if (marginBps < THIN_MARGIN_BPS) {
+          confidenceBps -= mulDiv(THIN_MARGIN_PENALTY_BPS, THIN_MARGIN_BPS - marginBps, THIN_MARGIN_BPS);
+        }
+
+        candidates.push({
+          position,
+          expectedProfit: breakdown.netProfitEth,
+          confidenceBps,
+          score: mulDiv(breakdown.netProfitEth, confidenceBps, BPS),
+          allocatedUspd: 0n,
+          shortfallUspd: position.uspdDebt
+        });
+      } catch (error) {
+        this.logger.warn('⚠️ Could not estimate liquidation', { nftId: position.nftId, error });
+      }
+    }
+    candidates.sort(byScore);
+
+    // USPD already promised to in-flight liquidations is not available to anyone else
+    const reserved = sumAllocated(this.inFlight.values());
+    const balance = await this.liquidationService.getUspdBalance();
+    let remaining = balance > reserved ? balance - reserved : 0n;
+
+    for (const candidate of candidates) {
+      candidate.allocatedUspd = min(candidate.position.uspdDebt, remaining);
+      candidate.shortfallUspd = candidate.position.uspdDebt - candidate.allocatedUspd;
+      remaining -= candidate.allocatedUspd;
+
+      if (candidate.shortfallUspd > 0n) {
+        candidate.confidenceBps -= ACQUISITION_PENALTY_BPS;
+        candidate.score = mulDiv(candidate.expectedProfit, candidate.confidenceBps, BPS);
+      }
+    }
+
+    return candidates.sort(byScore);
+  }
+
+  /**
+   * Start the best-ranked candidates until every slot is taken
+   */
+  private fillSlots(): void {
+    while (this.inFlight.size < this.maxConcurrent && this.ranking.length > 0 && this.priceData) {
+      const candidate = this.ranking.shift()!;
+      this.inFlight.set(candidate.position.nftId.toString(), candidate);
+      void this.run(candidate, this.priceData);
+    }
+  }
+
+  /**
+   * USPD promised to in-flight and ranked candidates, which funding must not count on
+   */
+  private allocatedUspd(): bigint {
+    return sumAllocated(this.inFlight.values()) + sumAllocated(this.ranking);
+  }
+
+  private async run(candidate: LiquidationCandidate, priceData: PriceData): Promise<void> {
+    const { position } = candidate;
+    const startedAt = Date.now();
+    try {
+      const result = await this.liquidationService.liquidatePosition(position, priceData, candidate.allocatedUspd);
+      this.recordHistory(candidate, startedAt, result);
+      this.onResult?.(position, result);
+    } catch (error) {
+      this.logger.error('❌ Liquidation error', { nftId: position.nftId, error });
+      this.recordHistory(candidate, startedAt, {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      this.inFlight.delete(position.nftId.toString());
+      this.fillSlots();
+    }
+  }
+
+  private recordHistory(candidate: LiquidationCandidate, startedAt: number, result: LiquidationResult): void {
+    this.history.push({
+      nftId: candidate.position.nftId,
+      startedAt,
+      finishedAt: Date.now(),
+      expectedProfit: candidate.expectedProfit,
+      confidenceBps: candidate.confidenceBps,
+      allocatedUspd: candidate.allocatedUspd,
+      result
+    });
+    if (this.history.length > MAX_HISTORY) {
+      this.history.splice(0, this.history.length - MAX_HISTORY);
+    }
+  }
+
+  private logRanking(): void {
+    if (this.ranking.length === 0) {
+      return;
+    }
+
+    this.logger.info(`🏁 Liquidation queue: ${this.ranking.length} ranked, ${this.inFlight.size}/${this.maxConcurrent} in flight`);
+    this.ranking.forEach((candidate, index) => {
+      const funding = candidate.shortfallUspd > 0n
+        ? `needs ${formatTokenAmount(candidate.shortfallUspd, 18, 'USPD ')}`
+        : 'fully funded';
+      this.logger.info(
+        `  ${index + 1}. ${formatTokenAmount(candidate.expectedProfit, 18, 'ETH ')} at ${formatBps(candidate.confidenceBps)}% confidence, ${funding}`,
+        { nftId: candidate.position.nftId, rank: index + 1 }
+      );
+    });
+  }
+}
+
+function byScore(a: LiquidationCandidate, b: LiquidationCandidate): number {
+  return compare(b.score, a.score);
+}
+
+function sumAllocated(candidates: Iterable<LiquidationCandidate>): bigint {
+  let sum = 0n;
+  for (const candidate of candidates) {
+    sum += candidate.allocatedUspd;
+  }
+  return sum;
+}
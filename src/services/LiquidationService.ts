@@ -1,211 +1,810 @@
-import { PublicClient, WalletClient, Address, parseEther } from 'viem';
+import {
+  PublicClient,
+  WalletClient,
+  Abi,
+  Address,
+  Hash,
+  Hex,
+  Log,
+  parseEther,
+  formatGwei,
+  encodeFunctionData,
+  parseEventLogs,
+  isAddressEqual,
+  BaseError,
+  erc20Abi,
+  maxUint256,
+  ContractFunctionRevertedError
+} from 'viem';
 import { StabilizerPosition } from './PositionService.js';
 import { PriceData, PriceService } from './PriceService.js';
+import { AbiService } from './AbiService.js';
+import { GasService, FeeEstimate, ConfirmationResult } from './GasService.js';
+import { TransactionTracker } from './TransactionTracker.js';
+import { SwapService, SwapQuote } from './SwapService.js';
+import { MintService, MintQuote } from './MintService.js';
+import { ProfitService, LiquidationProfitBreakdown } from './ProfitService.js';
+import { NotificationService } from './NotificationService.js';
+import { BPS, applyBps, compare, formatBps, formatTokenAmount, min } from '../utils/decimal.js';
+import { Logger } from '../utils/logger.js';
+
+export type UspdAcquisitionRoute = 'swap' | 'mint';
 
 export interface LiquidationResult {
   success: boolean;
   txHash?: string;
   profit?: bigint;
+  profitBreakdown?: LiquidationProfitBreakdown;
+  acquisitionRoute?: UspdAcquisitionRoute;
+  acquisitionCost?: bigint;
+  gasUsed?: bigint;
+  gasCost?: bigint;
+  collateralReceived?: bigint;
+  realizedProfit?: bigint;      // Net ETH actually made, from the stETH received and the gas paid
+  revertReason?: string;
   error?: string;
 }
 
+type AcquisitionPlan =
+  | { route: 'swap'; quote: SwapQuote; cost: bigint }
+  | { route: 'mint'; quote: MintQuote; cost: bigint };
+
+export interface LiquidationSimulationReport {
+  nftId: bigint;
+  timestamp: number;
+  collateralizationRatioBps: bigint;
+  requiredUspd: bigint;
+  sharesToLiquidate: bigint;
+  hasEnoughUspd: boolean;
+  hasCuspdAllowance: boolean;
+  expectedProfit: bigint;
+  profitBreakdown?: LiquidationProfitBreakdown;
+  meetsProfitThreshold: boolean;
+  wouldSucceed: boolean;
+  returnValue?: unknown;
+  estimatedGas?: bigint;
+  revertReason?: string;
+  error?: string;
+}
+
+// Gas assumed for a liquidation when the call cannot be estimated yet (e.g. USPD still to be acquired)
+const DEFAULT_LIQUIDATION_GAS_LIMIT = 500000n;
+const GAS_LIMIT_BUFFER_PERCENT = 20n;
+// Router overhead on top of the quoter's swap gas estimate
+const SWAP_GAS_OVERHEAD = 60000n;
+
 export class LiquidationService {
   private publicClient: PublicClient;
   private walletClient: WalletClient;
   private stabilizerNftAddress: Address;
+  private stabilizerImplAddress: Address;
   private uspdTokenAddress: Address;
+  private cuspdTokenAddress: Address;
   private minProfitThreshold: bigint;
   private priceService: PriceService;
+  private abiService: AbiService;
+  private gasService: GasService;
+  private swapService: SwapService;
+  private mintService: MintService;
+  private profitService: ProfitService;
+  private transactionTracker: TransactionTracker;
+  private liquidatorNftId: bigint;
+  private stabilizerNftAbi: any[] = [];
+  private preparing = false;
+  private allowanceLock: Promise<unknown> = Promise.resolve();
+  private notifier?: NotificationService;
+  private logger: Logger;
 
   constructor(
     publicClient: PublicClient,
     walletClient: WalletClient,
     stabilizerNftAddress: Address,
+    stabilizerImplAddress: Address,
     uspdTokenAddress: Address,
+    cuspdTokenAddress: Address,
     priceService: PriceService,
-    minProfitThreshold: string = '0.01' // ETH
+    abiService: AbiService,
+    gasService: GasService,
+    swapService: SwapService,
+    mintService: MintService,
+    profitService: ProfitService,
+    liquidatorNftId: bigint = 0n,
+    minProfitThreshold: string = '0.01', // ETH
+    logger: Logger = new Logger()
   ) {
     this.publicClient = publicClient;
     this.walletClient = walletClient;
     this.stabilizerNftAddress = stabilizerNftAddress;
+    this.stabilizerImplAddress = stabilizerImplAddress;
     this.uspdTokenAddress = uspdTokenAddress;
+    this.cuspdTokenAddress = cuspdTokenAddress;
     this.priceService = priceService;
+    this.abiService = abiService;
+    this.gasService = gasService;
+    this.swapService = swapService;
+    this.mintService = mintService;
+    this.profitService = profitService;
+    this.transactionTracker = new TransactionTracker(publicClient, walletClient, logger);
+    this.liquidatorNftId = liquidatorNftId;
     this.minProfitThreshold = parseEther(minProfitThreshold);
-  }
-
-  /**
-   * Format a token amount with human-readable value in parentheses
-   */
-  private formatTokenAmount(amount: bigint, decimals: number = 18, symbol: string = ''): string {
-    const scaled = Number(amount) / Math.pow(10, decimals);
-    return `${amount.toString()} ${symbol}(${scaled.toFixed(4)} ${symbol})`.trim();
+    this.logger = logger.forService('LiquidationService');
   }
 
   /**
    * Format ETH amount with human-readable value
    */
   private formatEthAmount(amount: bigint): string {
-    return this.formatTokenAmount(amount, 18, 'ETH ');
+    return formatTokenAmount(amount, 18, 'ETH ');
   }
 
   /**
    * Format USPD amount with human-readable value
    */
   private formatUspdAmount(amount: bigint): string {
-    return this.formatTokenAmount(amount, 18, 'USPD ');
+    return formatTokenAmount(amount, 18, 'USPD ');
+  }
+
+  /**
+   * Alert through the notifier when liquidations succeed or fail
+   */
+  setNotifier(notifier: NotificationService): void {
+    this.notifier = notifier;
   }
 
   /**
    * Attempt to liquidate a position
+   *
+   * @param uspdBudget USPD from the wallet balance reserved for this liquidation; anything beyond it is acquired
    */
   async liquidatePosition(
     position: StabilizerPosition,
-    priceData: PriceData
+    priceData: PriceData,
+    uspdBudget?: bigint
   ): Promise<LiquidationResult> {
+    const result = await this.attemptLiquidation(position, priceData, uspdBudget);
+    this.notifyResult(position, result);
+    return result;
+  }
+
+  private async attemptLiquidation(
+    position: StabilizerPosition,
+    priceData: PriceData,
+    uspdBudget?: bigint
+  ): Promise<LiquidationResult> {
+    const logger = this.logger.child({ nftId: position.nftId });
+
+    // Never submit the same position twice while an earlier attempt is still in flight
+    if (!this.transactionTracker.lockPosition(position.nftId)) {
+      logger.info('⏳ Liquidation already in flight, skipping');
+      return { success: false, error: 'Liquidation already in flight' };
+    }
+
     try {
-      console.log(`🎯 Attempting to liquidate position ${position.nftId}`);
+      logger.info('🎯 Attempting to liquidate position');
 
-      // 1. Check if we have enough USPD balance
+      // 1. Check if we have enough USPD balance, quoting a swap for any shortfall
       const requiredUspd = position.uspdDebt;
-      const hasEnoughUspd = await this.checkUspdBalance(requiredUspd);
-      
-      if (!hasEnoughUspd) {
-        console.log(`💰 Need ${this.formatUspdAmount(requiredUspd)} for liquidation`);
-        return { success: false, error: 'Insufficient USPD balance' };
+      const balance = await this.getUspdBalance();
+      const available = uspdBudget !== undefined ? min(balance, uspdBudget) : balance;
+      const shortfall = requiredUspd > available ? requiredUspd - available : 0n;
+
+      let acquisition: AcquisitionPlan | undefined;
+      if (shortfall > 0n) {
+        logger.info(`💰 Need ${this.formatUspdAmount(shortfall)} more for liquidation`);
+        acquisition = await this.planAcquisition(shortfall, priceData);
+        if (!acquisition) {
+          return { success: false, error: 'Insufficient USPD balance' };
+        }
       }
+      const acquisitionDetails = acquisition
+        ? { acquisitionRoute: acquisition.route, acquisitionCost: acquisition.cost }
+        : {};
 
-      // 2. Calculate expected profit
-      const expectedProfit = await this.calculateLiquidationProfit(position, priceData);
+      // 2. Calculate expected profit, net of what it costs to acquire the USPD
+      const profitBreakdown = await this.calculateLiquidationProfit(position, priceData, acquisition?.cost ?? 0n);
+      const expectedProfit = profitBreakdown.netProfitEth > 0n ? profitBreakdown.netProfitEth : 0n;
       
       if (expectedProfit < this.minProfitThreshold) {
-        console.log(`📉 Liquidation profit too low: ${this.formatEthAmount(expectedProfit)}`);
-        return { success: false, error: 'Profit below threshold' };
+        logger.info(`📉 Liquidation profit too low: ${this.formatEthAmount(expectedProfit)}`);
+        return { success: false, error: 'Profit below threshold', profitBreakdown, ...acquisitionDetails };
       }
 
-      // 3. Execute liquidation transaction
-      console.log(`💎 Expected profit: ${this.formatEthAmount(expectedProfit)}`);
-      console.log(`💰 Required USPD: ${this.formatUspdAmount(requiredUspd)}`);
-      
-      // TODO: Implement actual liquidation transaction
-      // This would call StabilizerNFT.liquidatePosition()
-      
+      // 3. Acquire the missing USPD
+      if (acquisition) {
+        const acquired = await this.acquireUspd(acquisition);
+        if (!acquired || (await this.getUspdBalance()) < requiredUspd) {
+          return { success: false, error: 'Failed to acquire USPD', ...acquisitionDetails };
+        }
+      }
+
+      // 4. Execute liquidation transaction
+      logger.info(`💎 Expected profit: ${this.formatEthAmount(expectedProfit)}, required USPD: ${this.formatUspdAmount(requiredUspd)}`);
+
+      const result = await this.executeLiquidation(position, priceData, expectedProfit);
+
+      // Value what was actually received at the discount the profit estimate used
+      const realizedProfit = result.success && result.collateralReceived !== undefined && result.gasCost !== undefined
+        ? applyBps(result.collateralReceived, BPS - profitBreakdown.stEthDiscountBps) - profitBreakdown.debtValueEth - result.gasCost - (acquisition?.cost ?? 0n)
+        : undefined;
+
       return {
-        success: true,
-        txHash: '0x...',
-        profit: expectedProfit
+        ...result,
+        profit: expectedProfit,
+        profitBreakdown,
+        ...acquisitionDetails,
+        ...(realizedProfit !== undefined && { realizedProfit })
       };
 
     } catch (error) {
-      console.error(`❌ Liquidation failed for position ${position.nftId}:`, error);
-      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      logger.error('❌ Liquidation failed', { error });
+      const revertReason = this.getRevertReason(error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        ...(revertReason && { revertReason })
+      };
+    } finally {
+      this.transactionTracker.unlockPosition(position.nftId);
     }
   }
 
   /**
-   * Check if we have enough USPD balance for liquidation
+   * Expected profit of a liquidation paid from USPD already in the wallet, without logging the breakdown
+   */
+  async estimateProfit(position: StabilizerPosition, priceData: PriceData): Promise<LiquidationProfitBreakdown> {
+    const gas = await this.estimateLiquidationGas(position, priceData);
+    return this.profitService.calculate(position, priceData, gas);
+  }
+
+  /**
+   * Get everything a liquidation needs in place ahead of time, so it can be sent as soon as the
+   * price crosses: ABIs loaded, the cUSPD allowance approved and, when a funding limit is given,
+   * enough USPD in the wallet for the debt of the positions worth liquidating, up to that limit
+   *
+   * Calls made while a previous preparation is still running are skipped.
+   *
+   * @param maxUspd Most USPD to hold for the positions; without it no USPD is acquired
+   * @param reservedUspd USPD in the wallet already promised to pending liquidations, read when the
+   *   balance is checked
    */
-  private async checkUspdBalance(requiredAmount: bigint): Promise<boolean> {
+  async prepareLiquidations(
+    positions: StabilizerPosition[],
+    priceData: PriceData,
+    maxUspd?: bigint,
+    reservedUspd: () => bigint = () => 0n
+  ): Promise<void> {
+    if (positions.length === 0 || this.preparing) {
+      return;
+    }
+
+    this.preparing = true;
     try {
-      // Query USPD token balance using ERC20 balanceOf
-      const balance = await this.publicClient.readContract({
-        address: this.uspdTokenAddress,
-        abi: [
-          {
-            name: 'balanceOf',
-            type: 'function',
-            stateMutability: 'view',
-            inputs: [{ type: 'address' }],
-            outputs: [{ type: 'uint256' }]
-          }
-        ],
-        functionName: 'balanceOf',
-        args: [this.walletClient.account?.address]
-      }) as bigint;
+      await this.loadAbis();
 
-      return balance >= requiredAmount;
+      const totalShares = positions.reduce((sum, position) => sum + position.backedShares, 0n);
+      await this.ensureCuspdAllowance(totalShares);
+
+      if (maxUspd === undefined) {
+        return;
+      }
+
+      // Buying USPD only pays off for positions that clear the profit threshold
+      const worthFunding: StabilizerPosition[] = [];
+      for (const position of positions) {
+        const breakdown = await this.estimateProfit(position, priceData);
+        if (breakdown.netProfitEth >= this.minProfitThreshold) {
+          worthFunding.push(position);
+        }
+      }
+
+      const totalDebt = worthFunding.reduce((sum, position) => sum + position.uspdDebt, 0n);
+      const target = min(totalDebt, maxUspd);
+      const balance = await this.getUspdBalance();
+      const reserved = reservedUspd();
+      const available = balance > reserved ? balance - reserved : 0n;
+      if (available >= target) {
+        return;
+      }
+
+      this.logger.info(`🧰 Pre-funding ${worthFunding.length} of ${positions.length} watchlisted positions: ${this.formatUspdAmount(target - available)} short${target < totalDebt ? ` (capped at ${this.formatUspdAmount(maxUspd)})` : ''}`);
+      const plan = await this.planAcquisition(target - available, priceData);
+      if (!plan || !await this.acquireUspd(plan)) {
+        this.logger.warn('⚠️ Could not pre-fund watchlisted positions, USPD will be acquired at liquidation time');
+      }
     } catch (error) {
-      console.error('❌ Failed to check USPD balance:', error);
-      return false;
+      this.logger.error('❌ Failed to prepare watchlisted liquidations', { error });
+    } finally {
+      this.preparing = false;
     }
   }
 
   /**
-   * Calculate expected profit from liquidation
+   * Alert on liquidations that were sent or should have been; skipped attempts stay quiet
    */
-  private async calculateLiquidationProfit(
+  private notifyResult(position: StabilizerPosition, result: LiquidationResult): void {
+    if (result.success) {
+      const profit = result.realizedProfit ?? result.profit;
+      this.notifier?.notify({
+        type: 'liquidation.succeeded',
+        severity: 'info',
+        title: `Liquidated position ${position.nftId}`,
+        message: `Transaction ${result.txHash}${profit !== undefined ? `, profit ${this.formatEthAmount(profit)}` : ''}`
+      });
+      return;
+    }
+
+    if (result.error === 'Profit below threshold' || result.error === 'Liquidation already in flight') {
+      return;
+    }
+
+    const reason = result.revertReason ? ` (revert: ${result.revertReason})` : '';
+    this.notifier?.notify({
+      type: 'liquidation.failed',
+      severity: 'error',
+      title: `Liquidation of position ${position.nftId} failed`,
+      message: `${result.error ?? 'Unknown error'}${reason}${result.txHash ? `, transaction ${result.txHash}` : ''}`
+    });
+  }
+
+  /**
+   * Get the tracker holding nonce and lifecycle state for our transactions
+   */
+  getTransactionTracker(): TransactionTracker {
+    return this.transactionTracker;
+  }
+
+  /**
+   * Run the full liquidation pipeline against the current chain state without signing or sending anything
+   */
+  async simulateLiquidation(
     position: StabilizerPosition,
     priceData: PriceData
-  ): Promise<bigint> {
+  ): Promise<LiquidationSimulationReport> {
+    const requiredUspd = position.uspdDebt;
+    const sharesToLiquidate = position.backedShares;
+    const report: LiquidationSimulationReport = {
+      nftId: position.nftId,
+      timestamp: Date.now(),
+      collateralizationRatioBps: position.collateralizationRatioBps,
+      requiredUspd,
+      sharesToLiquidate,
+      hasEnoughUspd: false,
+      hasCuspdAllowance: false,
+      expectedProfit: 0n,
+      meetsProfitThreshold: false,
+      wouldSucceed: false
+    };
+
     try {
-      // Convert price to number for calculations
-      const ethPriceUsd = this.priceService.priceToNumber(priceData);
-      console.log(`💰 ETH Price: $${ethPriceUsd.toFixed(2)}`);
-      
-      // Calculate collateral value in USD
-      const collateralEth = Number(position.collateralAmount) / 1e18; // Convert from wei
-      const collateralValueUsd = collateralEth * ethPriceUsd;
-      console.log(`🏦 Collateral: ${collateralEth.toFixed(6)} ETH ($${collateralValueUsd.toFixed(2)})`);
-      
-      // Calculate debt value (USPD is pegged to USD)
-      const debtValueUsd = Number(position.uspdDebt) / 1e18; // Assuming 18 decimals
-      console.log(`💸 Debt: ${debtValueUsd.toFixed(2)} USPD ($${debtValueUsd.toFixed(2)})`);
-      
-      // Liquidation bonus (typically 5-10%)
-      const liquidationBonusPercent = 5; // 5%
-      const bonusValue = (debtValueUsd * liquidationBonusPercent) / 100;
-      console.log(`🎁 Liquidation bonus (${liquidationBonusPercent}%): $${bonusValue.toFixed(2)}`);
-      
-      // Estimate gas costs (rough estimate)
-      const estimatedGasCostEth = 0.01; // 0.01 ETH
-      const estimatedGasCostUsd = estimatedGasCostEth * ethPriceUsd;
-      console.log(`⛽ Estimated gas cost: ${estimatedGasCostEth} ETH ($${estimatedGasCostUsd.toFixed(2)})`);
-      
-      // Calculate net profit in USD
-      const grossProfitUsd = bonusValue;
-      const netProfitUsd = grossProfitUsd - estimatedGasCostUsd;
-      console.log(`📊 Gross profit: $${grossProfitUsd.toFixed(2)}`);
-      console.log(`📊 Net profit: $${netProfitUsd.toFixed(2)}`);
-      
-      // Convert back to ETH
-      const netProfitEth = netProfitUsd / ethPriceUsd;
-      console.log(`💎 Net profit in ETH: ${netProfitEth.toFixed(8)} ETH`);
-      
-      // Handle negative or very small profits
-      if (netProfitEth <= 0) {
-        console.log(`⚠️ Negative or zero profit, returning 0`);
-        return 0n;
+      this.logger.info('🧪 Simulating liquidation', { nftId: position.nftId });
+
+      const account = this.walletClient.account;
+      if (!account) {
+        throw new Error('Wallet client has no account configured');
       }
-      
-      // Convert to wei, but handle precision issues
-      const netProfitEthString = netProfitEth.toFixed(18); // Use full precision
-      console.log(`🔢 Converting to wei: ${netProfitEthString} ETH`);
-      
-      const result = parseEther(netProfitEthString);
-      console.log(`✅ Final result: ${this.formatEthAmount(result)}`);
-      
-      return result;
+
+      await this.loadAbis();
+
+      report.hasEnoughUspd = (await this.getUspdBalance()) >= requiredUspd;
+      report.hasCuspdAllowance = (await this.getCuspdAllowance()) >= sharesToLiquidate;
+      report.profitBreakdown = await this.calculateLiquidationProfit(position, priceData);
+      report.expectedProfit = report.profitBreakdown.netProfitEth > 0n ? report.profitBreakdown.netProfitEth : 0n;
+      report.meetsProfitThreshold = report.expectedProfit >= this.minProfitThreshold;
+
+      const call = this.buildLiquidationCall(position, priceData);
+
+      // eth_call of the exact transaction we would send, then a gas estimate for it
+      const { result } = await this.publicClient.simulateContract(call);
+      report.returnValue = result;
+      report.estimatedGas = await this.publicClient.estimateContractGas(call);
+      report.wouldSucceed = true;
+    } catch (error) {
+      const revertReason = this.getRevertReason(error);
+      if (revertReason) {
+        report.revertReason = revertReason;
+      }
+      report.error = error instanceof BaseError ? error.shortMessage : error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return report;
+  }
+
+  /**
+   * Load the StabilizerNFT ABI from cache or Etherscan
+   */
+  private async loadAbis(): Promise<void> {
+    if (this.stabilizerNftAbi.length > 0) {
+      return;
+    }
+
+    // Calls go to the proxy, but the ABI lives on the implementation
+    this.stabilizerNftAbi = await this.abiService.getContractAbi(this.stabilizerImplAddress);
+  }
+
+  /**
+   * Build the StabilizerNFT.liquidatePosition() call for a position
+   */
+  private buildLiquidationCall(position: StabilizerPosition, priceData: PriceData) {
+    return {
+      address: this.stabilizerNftAddress,
+      abi: this.stabilizerNftAbi,
+      functionName: 'liquidatePosition',
+      args: [this.liquidatorNftId, position.nftId, position.backedShares, this.priceService.toPriceQuery(priceData)] as const,
+      account: this.walletClient.account!
+    } as const;
+  }
+
+  /**
+   * Estimate gas for the liquidation, falling back to a default when the call cannot be estimated yet
+   */
+  private async estimateLiquidationGas(
+    position: StabilizerPosition,
+    priceData: PriceData
+  ): Promise<{ units: bigint; estimated: boolean }> {
+    try {
+      await this.loadAbis();
+      const units = await this.publicClient.estimateContractGas(this.buildLiquidationCall(position, priceData));
+      return { units, estimated: true };
+    } catch {
+      // Usually missing USPD or allowance, which are sorted out before the transaction is sent
+      return { units: DEFAULT_LIQUIDATION_GAS_LIMIT, estimated: false };
+    }
+  }
+
+  /**
+   * Call StabilizerNFT.liquidatePosition() and wait for the outcome
+   */
+  private async executeLiquidation(
+    position: StabilizerPosition,
+    priceData: PriceData,
+    expectedProfit: bigint
+  ): Promise<LiquidationResult> {
+    const account = this.walletClient.account;
+    if (!account) {
+      throw new Error('Wallet client has no account configured');
+    }
+
+    await this.loadAbis();
+
+    // The stabilizer pulls the liquidated cUSPD shares from our wallet
+    const sharesToLiquidate = position.backedShares;
+    await this.ensureCuspdAllowance(sharesToLiquidate);
+
+    const call = this.buildLiquidationCall(position, priceData);
+
+    // Simulate first so reverts surface with a decoded reason instead of burning gas
+    await this.publicClient.simulateContract(call);
+    const gasLimit = this.addGasBuffer(await this.publicClient.estimateContractGas(call));
+
+    const fees = await this.gasService.estimateFees(expectedProfit, gasLimit);
+    if (this.gasService.isAboveCap(fees)) {
+      return { success: false, error: 'Base fee above MAX_GAS_PRICE' };
+    }
+
+    const data = encodeFunctionData({ abi: call.abi, functionName: call.functionName, args: [...call.args] });
+    const confirmation = await this.sendTracked(
+      `liquidation of position ${position.nftId}`,
+      { to: this.stabilizerNftAddress, data, gas: gasLimit },
+      fees,
+      position.nftId
+    );
+    const txHash = confirmation.hash;
+    const receipt = confirmation.receipt;
+    const logger = this.logger.child({ nftId: position.nftId, txHash });
+
+    if (!receipt) {
+      return { success: false, txHash, error: confirmation.timedOut ? 'Liquidation transaction was not mined in time' : 'Liquidation transaction was dropped' };
+    }
+    if (confirmation.cancelled) {
+      return { success: false, txHash, gasUsed: receipt.gasUsed, error: 'Liquidation transaction was cancelled' };
+    }
+
+    logger.info(`⛽ Gas used: ${receipt.gasUsed}`, { block: receipt.blockNumber });
+
+    if (receipt.status !== 'success') {
+      const revertReason = 'Transaction reverted on-chain';
+      logger.error('❌ Liquidation transaction reverted', { block: receipt.blockNumber });
+      return { success: false, txHash, gasUsed: receipt.gasUsed, revertReason, error: revertReason };
+    }
+
+    const collateralReceived = this.decodeCollateralReceived(receipt.logs, position.nftId);
+    if (collateralReceived !== undefined) {
+      logger.info(`🏦 Collateral received: ${formatTokenAmount(collateralReceived, 18, 'stETH ')}`);
+    } else {
+      logger.warn('⚠️ No liquidation event found in receipt');
+    }
+
+    return {
+      success: true,
+      txHash,
+      gasUsed: receipt.gasUsed,
+      gasCost: receipt.gasUsed * receipt.effectiveGasPrice,
+      ...(collateralReceived !== undefined && { collateralReceived })
+    };
+  }
+
+  /**
+   * Approve the StabilizerNFT to pull our cUSPD shares if the current allowance is too low
+   *
+   * ERC20 approve replaces the allowance instead of adding to it, so an approval sized for one
+   * liquidation would cut short every other one in flight. The allowance is raised to the maximum
+   * instead, and checks are serialized so concurrent liquidations share a single approval.
+   */
+  private async ensureCuspdAllowance(shares: bigint): Promise<void> {
+    const check = this.allowanceLock.then(() => this.approveCuspdIfNeeded(shares));
+
+    // Keep the chain alive even if this approval fails
+    this.allowanceLock = check.catch(() => undefined);
+    return check;
+  }
+
+  private async approveCuspdIfNeeded(shares: bigint): Promise<void> {
+    const account = this.walletClient.account!;
+
+    const allowance = await this.getCuspdAllowance();
+    if (allowance >= shares) {
+      return;
+    }
+
+    this.logger.info('🔓 Approving StabilizerNFT to spend our cUSPD');
+    const call = {
+      address: this.cuspdTokenAddress,
+      abi: erc20Abi,
+      functionName: 'approve',
+      args: [this.stabilizerNftAddress, maxUint256],
+      account
+    } as const;
+
+    const gasLimit = this.addGasBuffer(await this.publicClient.estimateContractGas(call));
+    const fees = await this.gasService.estimateFees();
+    const { hash, receipt } = await this.sendTracked(
+      'cUSPD approval',
+      { to: this.cuspdTokenAddress, data: encodeFunctionData(call), gas: gasLimit },
+      fees
+    );
+    if (receipt?.status !== 'success') {
+      throw new Error(`cUSPD approval transaction ${hash} did not succeed`);
+    }
+  }
+
+  /**
+   * Send a transaction with a locally allocated nonce and track it until it settles
+   */
+  private async sendTracked(
+    label: string,
+    tx: { to: Address; data: Hex; value?: bigint; gas: bigint },
+    fees: FeeEstimate,
+    nftId?: bigint
+  ): Promise<ConfirmationResult> {
+    const nonce = await this.transactionTracker.allocateNonce();
+
+    let pending;
+    try {
+      pending = await this.gasService.sendTransaction({ ...tx, nonce }, fees);
+    } catch (error) {
+      // The nonce was never used, so the local counter is now ahead of the chain
+      await this.transactionTracker.releaseNonce(nonce, true);
+      throw error;
+    }
+
+    this.logger.info(`📤 Sent ${label} (${this.gasService.formatFees(fees)})`, {
+      txHash: pending.hash,
+      nonce,
+      ...(nftId !== undefined && { nftId })
+    });
+    this.transactionTracker.trackSubmitted(nonce, pending.hash, label, nftId);
+    const hashes = [pending.hash];
+
+    try {
+      const confirmation = await this.gasService.waitForConfirmation(pending, replacement => {
+        hashes.push(replacement.hash);
+        this.transactionTracker.trackReplaced(nonce, replacement.hash);
+      });
+
+      if (confirmation.timedOut) {
+        // Still pending and may yet be mined, so it stays tracked (and its position locked) until
+        // the nonce is used
+        void this.settleWhenNonceUsed(nonce, hashes);
+      } else if (!confirmation.receipt || confirmation.cancelled) {
+        this.transactionTracker.trackSettled(nonce, 'dropped');
+      } else {
+        this.transactionTracker.trackSettled(nonce, confirmation.receipt.status === 'success' ? 'mined' : 'reverted');
+      }
+      await this.transactionTracker.releaseNonce(nonce, !confirmation.receipt);
+
+      return confirmation;
     } catch (error) {
-      console.error('❌ Failed to calculate liquidation profit:', error);
-      console.error('Error details:', error);
+      await this.transactionTracker.releaseNonce(nonce, true);
+      throw error;
+    }
+  }
+
+  /**
+   * Record how a transaction waitForConfirmation gave up on ended, once its nonce is used
+   */
+  private async settleWhenNonceUsed(nonce: number, hashes: Hash[]): Promise<void> {
+    const receipt = await this.gasService.waitForNonce(nonce, hashes);
+    this.transactionTracker.trackSettled(nonce, !receipt ? 'dropped' : receipt.status === 'success' ? 'mined' : 'reverted');
+  }
+
+  /**
+   * Pad a gas estimate so small state changes between estimate and inclusion do not run out of gas
+   */
+  private addGasBuffer(gas: bigint): bigint {
+    return (gas * (100n + GAS_LIMIT_BUFFER_PERCENT)) / 100n;
+  }
+
+  /**
+   * Read how many of our cUSPD shares the StabilizerNFT may currently pull
+   */
+  private async getCuspdAllowance(): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.cuspdTokenAddress,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [this.walletClient.account!.address, this.stabilizerNftAddress]
+    });
+  }
+
+  /**
+   * Decode the stETH paid out to us from the PositionLiquidated event of the liquidated position
+   */
+  private decodeCollateralReceived(logs: Log[], nftId: bigint): bigint | undefined {
+    const events = parseEventLogs({
+      abi: this.stabilizerNftAbi as Abi,
+      logs: logs.filter(log => isAddressEqual(log.address, this.stabilizerNftAddress)),
+      eventName: 'PositionLiquidated'
+    });
+
+    for (const event of events) {
+      // The ABI comes from Etherscan, so the argument types are checked rather than assumed
+      const args = event.args as Record<string, unknown>;
+      if (args.positionTokenId === nftId && typeof args.stEthPaidToLiquidator === 'bigint') {
+        return args.stEthPaidToLiquidator;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Extract a human-readable revert reason from a viem error
+   */
+  private getRevertReason(error: unknown): string | undefined {
+    if (!(error instanceof BaseError)) {
+      return undefined;
+    }
+
+    const revertError = error.walk(err => err instanceof ContractFunctionRevertedError);
+    if (revertError instanceof ContractFunctionRevertedError) {
+      return revertError.data?.errorName ?? revertError.reason ?? revertError.shortMessage;
+    }
+
+    return error.shortMessage;
+  }
+
+  /**
+   * Get our current USPD balance
+   */
+  async getUspdBalance(): Promise<bigint> {
+    try {
+      // Query USPD token balance using ERC20 balanceOf
+      return await this.publicClient.readContract({
+        address: this.uspdTokenAddress,
+        abi: erc20Abi,
+        functionName: 'balanceOf',
+        args: [this.walletClient.account!.address]
+      });
+    } catch (error) {
+      this.logger.error('❌ Failed to check USPD balance', { error });
       return 0n;
     }
   }
 
   /**
-   * Acquire USPD tokens (buy from DEX or mint)
+   * Quote both acquisition routes for a USPD shortfall and pick the cheaper one
    */
-  private async acquireUspd(amount: bigint): Promise<boolean> {
+  private async planAcquisition(shortfall: bigint, priceData: PriceData): Promise<AcquisitionPlan | undefined> {
+    const recipient = this.walletClient.account!.address;
+    const fees = await this.gasService.estimateFees();
+
+    const [swap, mint] = await Promise.allSettled([
+      this.swapService.quoteUspd(shortfall, priceData),
+      this.mintService.quoteMint(shortfall, priceData, recipient)
+    ]);
+
+    const plans: AcquisitionPlan[] = [];
+
+    if (swap.status === 'fulfilled') {
+      const quote = swap.value;
+      const gasCost = (quote.gasEstimate + SWAP_GAS_OVERHEAD) * fees.maxFeePerGas;
+      const cost = this.acquisitionPremium(quote.costEth, shortfall, priceData) + gasCost;
+      this.logger.debug(`💱 Swap route: ${quote.amountIn} ${quote.inputToken} units (max ${quote.amountInMaximum}), pool fee ${quote.fee}, cost ${this.formatEthAmount(cost)}`);
+      plans.push({ route: 'swap', quote, cost });
+    } else {
+      this.logger.warn('⚠️ Swap route unavailable', { error: swap.reason });
+    }
+
+    if (mint.status === 'fulfilled') {
+      const quote = mint.value;
+      const gasCost = quote.gasEstimate * fees.maxFeePerGas;
+      const cost = this.acquisitionPremium(quote.costEth, shortfall, priceData) + gasCost;
+      this.logger.debug(`🏭 Mint route: ${this.formatEthAmount(quote.ethIn)} in, cost ${this.formatEthAmount(cost)}`);
+      plans.push({ route: 'mint', quote, cost });
+    } else {
+      this.logger.warn('⚠️ Mint route unavailable', { error: mint.reason });
+    }
+
+    const cheapest = plans.sort((a, b) => compare(a.cost, b.cost))[0];
+    if (cheapest) {
+      this.logger.info(`✅ Acquiring USPD via ${cheapest.route} (cost ${this.formatEthAmount(cheapest.cost)})`);
+    }
+    return cheapest;
+  }
+
+  /**
+   * ETH spent beyond the face value of the USPD received
+   *
+   * USPD is worth $1, so only the premium over the oracle price is a cost of the liquidation.
+   */
+  private acquisitionPremium(costEth: bigint, uspdAmount: bigint, priceData: PriceData): bigint {
+    return costEth - this.priceService.usdToEth(uspdAmount, priceData);
+  }
+
+  /**
+   * Calculate expected profit from liquidation
+   */
+  private async calculateLiquidationProfit(
+    position: StabilizerPosition,
+    priceData: PriceData,
+    acquisitionCost: bigint = 0n
+  ): Promise<LiquidationProfitBreakdown> {
+    const gas = await this.estimateLiquidationGas(position, priceData);
+    const breakdown = await this.profitService.calculate(position, priceData, gas, acquisitionCost);
+    const logger = this.logger.child({ nftId: position.nftId });
+
+    logger.debug(`💰 ETH Price: $${this.priceService.formatPrice(priceData)}`);
+    logger.debug(`💸 Debt: ${this.formatUspdAmount(breakdown.debtUspd)} = ${this.formatEthAmount(breakdown.debtValueEth)}`);
+    if (!breakdown.withinTier) {
+      logger.debug(`🚧 Ratio is not below the ${formatBps(breakdown.liquidationThresholdBps)}% threshold of liquidator NFT ${breakdown.liquidatorNftId}, no payout`);
+    }
+    logger.debug(`🎁 Payout (${breakdown.payoutPercent}% of debt): ${formatTokenAmount(breakdown.stEthReceived, 18, 'stETH ')} (escrow ${breakdown.stEthFromEscrow}, insurance ${breakdown.stEthFromInsurance})`);
+    logger.debug(`🔄 stETH → ETH: ${this.formatEthAmount(breakdown.stEthValueEth)} (discount ${breakdown.stEthDiscountBps} bps)`);
+    logger.debug(`⛽ Gas: ${breakdown.gasUnits} units${breakdown.gasEstimated ? '' : ' (default)'} × ${formatGwei(breakdown.maxFeePerGas)} gwei = ${this.formatEthAmount(breakdown.gasCostEth)}`);
+    if (breakdown.acquisitionCostEth !== 0n) {
+      logger.debug(`💱 USPD acquisition cost: ${this.formatEthAmount(breakdown.acquisitionCostEth)}`);
+    }
+    logger.debug(`📊 Gross profit: ${this.formatEthAmount(breakdown.grossProfitEth)}`);
+    logger.debug(`📊 Net profit: ${this.formatEthAmount(breakdown.netProfitEth)}`);
+
+    return breakdown;
+  }
+
+  /**
+   * Acquire USPD tokens by executing the chosen swap or mint
+   */
+  private async acquireUspd(plan: AcquisitionPlan): Promise<boolean> {
     try {
-      // TODO: Implement USPD acquisition strategy
-      // Options:
-      // 1. Buy from Uniswap/other DEX
-      // 2. Mint new USPD (if system allows)
-      // 3. Use existing balance
-      
-      console.log(`💱 Acquiring ${amount} USPD tokens`);
+      this.logger.info(`💱 Acquiring ${this.formatUspdAmount(plan.quote.amountOut)} via ${plan.route}`);
+
+      const account = this.walletClient.account!;
+      const transactions = plan.route === 'swap'
+        ? await this.swapService.buildSwapTransactions(plan.quote, account.address)
+        : [await this.mintService.buildMintTransaction(plan.quote.amountOut, account.address)];
+
+      for (const tx of transactions) {
+        const gasLimit = this.addGasBuffer(await this.publicClient.estimateGas({ account, ...tx }));
+        const fees = await this.gasService.estimateFees();
+        const { hash, receipt } = await this.sendTracked(tx.label, { ...tx, gas: gasLimit }, fees);
+
+        if (receipt?.status !== 'success') {
+          this.logger.error(`❌ ${tx.label} transaction did not succeed`, { txHash: hash });
+          return false;
+        }
+      }
+
       return true;
     } catch (error) {
-      console.error('❌ Failed to acquire USPD:', error);
+      this.logger.error('❌ Failed to acquire USPD', { error });
       return false;
     }
   }
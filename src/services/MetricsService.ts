@@ -0,0 +1,211 @@
+import { EIP1193RequestFn, Transport } from 'viem';
+import { LiquidationResult } from './LiquidationService.js';
+import { RpcEndpointStatus } from './RpcPool.js';
+import { formatDecimal } from '../utils/decimal.js';
+
+export type LiquidationOutcome = 'success' | 'reverted' | 'unprofitable' | 'failed';
+
+/**
+ * Point-in-time values collected from one chain's services on each scrape
+ */
+export interface MetricsGauges {
+  chainId: number;
+  priceAgeSeconds?: number;
+  ethPriceWad?: bigint;
+  positionsTotal: number;
+  positionsActive: number;
+  positionsLiquidatable: number;
+  positionsWatched: number;
+  liquidationsInFlight: number;
+  liquidationsPaused: boolean;
+  walletEthBalance?: bigint;
+  walletUspdBalance?: bigint;
+  rpcEndpoints: RpcEndpointStatus[];
+}
+
+interface LiquidationCounters {
+  attempts: number;
+  outcomes: Map<LiquidationOutcome, number>;
+  realizedProfitWei: bigint;
+}
+
+const METRIC_PREFIX = 'uspd_liquidator';
+
+type Sample = [Record<string, string>, number | string];
+
+/**
+ * Counts what happens over the bot's lifetime and renders it, together with the current gauges,
+ * in the Prometheus text exposition format
+ *
+ * Every metric except the uptime carries a chain_id label, so one process can report several chains.
+ */
+export class MetricsService {
+  private startedAt = Date.now();
+  private rpcErrors: Map<string, { chainId: number; transport: string; method: string; count: number }> = new Map();
+  private liquidations: Map<number, LiquidationCounters> = new Map();
+
+  recordRpcError(chainId: number, transport: string, method: string): void {
+    const key = `${chainId}:${transport}:${method}`;
+    const entry = this.rpcErrors.get(key) ?? { chainId, transport, method, count: 0 };
+    entry.count++;
+    this.rpcErrors.set(key, entry);
+  }
+
+  /**
+   * Count a finished liquidation attempt by outcome and add up the profit it realized
+   */
+  recordLiquidation(chainId: number, result: LiquidationResult): void {
+    const counters = this.getLiquidationCounters(chainId);
+    counters.attempts++;
+
+    const outcome = this.classifyOutcome(result);
+    counters.outcomes.set(outcome, (counters.outcomes.get(outcome) ?? 0) + 1);
+
+    if (result.realizedProfit !== undefined) {
+      counters.realizedProfitWei += result.realizedProfit;
+    }
+  }
+
+  render(chains: MetricsGauges[]): string {
+    const lines: string[] = [];
+    const perChain = (value: (gauges: MetricsGauges, chain: Record<string, string>) => Sample[]): Sample[] =>
+      chains.flatMap(gauges => value(gauges, { chain_id: String(gauges.chainId) }));
+
+    metric(lines, 'uptime_seconds', 'gauge', 'Seconds since the bot started', [
+      [{}, (Date.now() - this.startedAt) / 1000]
+    ]);
+
+    metric(lines, 'price_age_seconds', 'gauge', 'Age of the last accepted signed price', perChain((gauges, chain) =>
+      gauges.priceAgeSeconds !== undefined ? [[chain, gauges.priceAgeSeconds]] : []
+    ));
+    metric(lines, 'eth_price_usd', 'gauge', 'Last accepted signed ETH/USD price', perChain((gauges, chain) =>
+      gauges.ethPriceWad !== undefined ? [[chain, wad(gauges.ethPriceWad)]] : []
+    ));
+
+    metric(lines, 'positions', 'gauge', 'Monitored Stabilizer positions by state', perChain((gauges, chain) => [
+      [{ ...chain, state: 'total' }, gauges.positionsTotal],
+      [{ ...chain, state: 'active' }, gauges.positionsActive],
+      [{ ...chain, state: 'liquidatable' }, gauges.positionsLiquidatable],
+      [{ ...chain, state: 'watched' }, gauges.positionsWatched]
+    ]));
+    metric(lines, 'liquidatable_positions', 'gauge', 'Positions below their liquidation threshold', perChain((gauges, chain) => [
+      [chain, gauges.positionsLiquidatable]
+    ]));
+    metric(lines, 'liquidations_in_flight', 'gauge', 'Liquidations currently being executed', perChain((gauges, chain) => [
+      [chain, gauges.liquidationsInFlight]
+    ]));
+    metric(lines, 'liquidations_paused', 'gauge', '1 while liquidations are paused on a price deviation', perChain((gauges, chain) => [
+      [chain, gauges.liquidationsPaused ? 1 : 0]
+    ]));
+
+    metric(lines, 'rpc_errors_total', 'counter', 'Failed RPC requests, including reverted calls',
+      Array.from(this.rpcErrors.values(), entry => [
+        { chain_id: String(entry.chainId), transport: entry.transport, method: entry.method },
+        entry.count
+      ])
+    );
+
+    const endpoints = (value: (status: RpcEndpointStatus) => number | undefined) => perChain((gauges, chain) =>
+      gauges.rpcEndpoints.flatMap(status => {
+        const sample = value(status);
+        return sample !== undefined ? [[{ ...chain, transport: status.transport, endpoint: status.endpoint }, sample] as Sample] : [];
+      })
+    );
+    metric(lines, 'rpc_endpoint_up', 'gauge', '1 while an RPC endpoint is healthy and receives requests', endpoints(status => status.healthy ? 1 : 0));
+    metric(lines, 'rpc_endpoint_latency_seconds', 'gauge', 'Smoothed request latency per RPC endpoint', endpoints(status =>
+      status.latencyMs !== undefined ? status.latencyMs / 1000 : undefined
+    ));
+    metric(lines, 'rpc_endpoint_error_rate', 'gauge', 'Smoothed share of failed requests per RPC endpoint', endpoints(status => status.errorRate));
+    metric(lines, 'rpc_endpoint_block_lag', 'gauge', 'Blocks an RPC endpoint trails the most recent block seen', endpoints(status => status.blockLag));
+
+    metric(lines, 'liquidation_attempts_total', 'counter', 'Liquidation attempts', perChain((gauges, chain) => [
+      [chain, this.getLiquidationCounters(gauges.chainId).attempts]
+    ]));
+    metric(lines, 'liquidation_outcomes_total', 'counter', 'Finished liquidation attempts by outcome', perChain((gauges, chain) =>
+      (['success', 'reverted', 'unprofitable', 'failed'] as const).map(outcome => [
+        { ...chain, outcome },
+        this.getLiquidationCounters(gauges.chainId).outcomes.get(outcome) ?? 0
+      ])
+    ));
+    // A gauge rather than a counter: a liquidation can realize a loss
+    metric(lines, 'realized_profit_eth', 'gauge', 'Net ETH made by successful liquidations since the bot started', perChain((gauges, chain) => [
+      [chain, wad(this.getLiquidationCounters(gauges.chainId).realizedProfitWei)]
+    ]));
+
+    metric(lines, 'wallet_balance', 'gauge', 'Liquidator wallet balances', perChain((gauges, chain) => [
+      ...(gauges.walletEthBalance !== undefined ? [[{ ...chain, token: 'ETH' }, wad(gauges.walletEthBalance)] as Sample] : []),
+      ...(gauges.walletUspdBalance !== undefined ? [[{ ...chain, token: 'USPD' }, wad(gauges.walletUspdBalance)] as Sample] : [])
+    ]));
+
+    return lines.join('\n') + '\n';
+  }
+
+  private getLiquidationCounters(chainId: number): LiquidationCounters {
+    let counters = this.liquidations.get(chainId);
+    if (!counters) {
+      counters = { attempts: 0, outcomes: new Map(), realizedProfitWei: 0n };
+      this.liquidations.set(chainId, counters);
+    }
+    return counters;
+  }
+
+  private classifyOutcome(result: LiquidationResult): LiquidationOutcome {
+    if (result.success) {
+      return 'success';
+    }
+    if (result.revertReason) {
+      return 'reverted';
+    }
+    if (result.error === 'Profit below threshold') {
+      return 'unprofitable';
+    }
+    return 'failed';
+  }
+}
+
+/**
+ * Wrap a viem transport so every failed request is counted in the metrics
+ */
+export function withRpcErrorMetrics<transport extends Transport>(
+  transport: transport,
+  metrics: MetricsService,
+  chainId: number,
+  name: string
+): transport {
+  return ((options: Parameters<transport>[0]) => {
+    const instance = transport(options);
+    const request: EIP1193RequestFn = async (args, requestOptions) => {
+      try {
+        return await instance.request(args, requestOptions);
+      } catch (error) {
+        metrics.recordRpcError(chainId, name, args.method);
+        throw error;
+      }
+    };
+
+    return { ...instance, request };
+  }) as transport;
+}
+
+function metric(
+  lines: string[],
+  name: string,
+  type: 'gauge' | 'counter',
+  help: string,
+  samples: Sample[]
+): void {
+  const fullName = `${METRIC_PREFIX}_${name}`;
+  lines.push(`# HELP ${fullName} ${help}`);
+  lines.push(`# TYPE ${fullName} ${type}`);
+  for (const [labels, value] of samples) {
+    const labelText = Object.entries(labels)
+      .map(([key, labelValue]) => `${key}="${labelValue.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`)
+      .join(',');
+    lines.push(`${fullName}${labelText ? `{${labelText}}` : ''} ${value}`);
+  }
+}
+
+// 18-decimal amounts as plain decimals, exact enough for dashboards
+function wad(amount: bigint): string {
+  return formatDecimal(amount, 18, 9);
+}
@@ -0,0 +1,99 @@
+import { PublicClient, Address, encodeFunctionData } from 'viem';
+import { AbiService } from './AbiService.js';
+import { PriceData, PriceService } from './PriceService.js';
+import { PreparedTransaction } from '../types/transaction.js';
+import { applyBps } from '../utils/decimal.js';
+
+export interface MintQuote {
+  amountOut: bigint;    // USPD to mint
+  ethIn: bigint;        // ETH sent with the mint
+  gasEstimate: bigint;
+  costEth: bigint;      // ETH spent on the mint itself
+}
+
+// Extra ETH sent so share rounding never leaves us just short of the target amount
+const MINT_BUFFER_BPS = 10n;
+
+export class MintService {
+  private publicClient: PublicClient;
+  private abiService: AbiService;
+  private priceService: PriceService;
+  private uspdTokenAddress: Address;
+  private uspdTokenAbi: any[] = [];
+
+  constructor(
+    publicClient: PublicClient,
+    abiService: AbiService,
+    priceService: PriceService,
+    uspdTokenAddress: Address
+  ) {
+    this.publicClient = publicClient;
+    this.abiService = abiService;
+    this.priceService = priceService;
+    this.uspdTokenAddress = uspdTokenAddress;
+  }
+
+  /**
+   * Quote minting an exact amount of USPD, simulating the mint to confirm stabilizer capacity
+   */
+  async quoteMint(amountOut: bigint, priceData: PriceData, recipient: Address): Promise<MintQuote> {
+    await this.loadAbis();
+
+    const ethIn = this.ethForUspd(amountOut, priceData);
+    const call = {
+      address: this.uspdTokenAddress,
+      abi: this.uspdTokenAbi,
+      functionName: 'mint',
+      args: [recipient, this.priceService.toPriceQuery(priceData)] as const,
+      value: ethIn,
+      account: recipient
+    } as const;
+
+    // Reverts if there is not enough unallocated stabilizer collateral to back the mint
+    await this.publicClient.simulateContract(call);
+    const gasEstimate = await this.publicClient.estimateContractGas(call);
+
+    return { amountOut, ethIn, gasEstimate, costEth: ethIn };
+  }
+
+  /**
+   * Build the mint transaction against a freshly signed price
+   */
+  async buildMintTransaction(amountOut: bigint, recipient: Address): Promise<PreparedTransaction> {
+    await this.loadAbis();
+
+    // Attestations expire quickly, so the mint always uses a price fetched right before sending
+    const priceData = await this.priceService.getCurrentEthPrice();
+    const ethIn = this.ethForUspd(amountOut, priceData);
+
+    return {
+      label: 'USPD mint',
+      to: this.uspdTokenAddress,
+      data: encodeFunctionData({
+        abi: this.uspdTokenAbi,
+        functionName: 'mint',
+        args: [recipient, this.priceService.toPriceQuery(priceData)]
+      }),
+      value: ethIn
+    };
+  }
+
+  /**
+   * ETH needed to mint an amount of USPD at the given price, rounded up and buffered
+   */
+  private ethForUspd(amountOut: bigint, priceData: PriceData): bigint {
+    const ethIn = this.priceService.usdToEth(amountOut, priceData, 'up');
+    return ethIn + applyBps(ethIn, MINT_BUFFER_BPS, 'up');
+  }
+
+  /**
+   * Load the USPD token ABI from cache or Etherscan
+   */
+  private async loadAbis(): Promise<void> {
+    if (this.uspdTokenAbi.length > 0) {
+      return;
+    }
+
+    this.uspdTokenAbi = await this.abiService.getContractAbi(this.uspdTokenAddress);
+  }
+}
@@ -0,0 +1,107 @@
+import { Notification } from './NotificationService.js';
+
+/**
+ * A destination for alerts
+ */
+export interface NotificationChannel {
+  readonly name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+const SEVERITY_EMOJI: Record<Notification['severity'], string> = {
+  info: 'ℹ️',
+  warning: '⚠️',
+  error: '❌',
+  critical: '🚨'
+};
+
+// Webhooks that do not answer in time count as failed deliveries
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+function headline(notification: Notification): string {
+  return `${SEVERITY_EMOJI[notification.severity]} [${notification.severity.toUpperCase()}] ${notification.title}`;
+}
+
+async function postJson(url: string, body: unknown): Promise<void> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+}
+
+/**
+ * Slack incoming webhook
+ */
+export class SlackChannel implements NotificationChannel {
+  readonly name = 'slack';
+  private webhookUrl: string;
+
+  constructor(webhookUrl: string) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.webhookUrl, { text: `*${headline(notification)}*\n${notification.message}` });
+  }
+}
+
+/**
+ * Discord channel webhook
+ */
+export class DiscordChannel implements NotificationChannel {
+  readonly name = 'discord';
+  private webhookUrl: string;
+
+  constructor(webhookUrl: string) {
+    this.webhookUrl = webhookUrl;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    // Discord rejects messages over 2000 characters
+    const content = `**${headline(notification)}**\n${notification.message}`;
+    await postJson(this.webhookUrl, { content: content.slice(0, 2000) });
+  }
+}
+
+/**
+ * Telegram bot message to a chat
+ */
+export class TelegramChannel implements NotificationChannel {
+  readonly name = 'telegram';
+  private botToken: string;
+  private chatId: string;
+
+  constructor(botToken: string, chatId: string) {
+    this.botToken = botToken;
+    this.chatId = chatId;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    // Plain text, so nothing in the message needs escaping
+    await postJson(`https://api.telegram.org/bot${this.botToken}/sendMessage`, {
+      chat_id: this.chatId,
+      text: `${headline(notification)}\n${notification.message}`
+    });
+  }
+}
+
+/**
+ * Generic webhook receiving the notification as JSON
+ */
+export class WebhookChannel implements NotificationChannel {
+  readonly name = 'webhook';
+  private url: string;
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  async send(notification: Notification): Promise<void> {
+    await postJson(this.url, notification);
+  }
+}
@@ -0,0 +1,170 @@
+import { NotificationChannel } from './NotificationChannels.js';
+import { Logger } from '../utils/logger.js';
+
+export type Severity = 'info' | 'warning' | 'error' | 'critical';
+
+export interface Notification {
+  type: string;          // Event kind, e.g. position.liquidatable
+  severity: Severity;
+  title: string;
+  message: string;
+  key?: string;          // Deduplication key, defaults to type and title
+  timestamp: number;
+  suppressed?: number;   // Alerts dropped on this channel since the previous one was sent
+}
+
+export type NotificationInput = Omit<Notification, 'timestamp' | 'suppressed'>;
+
+export interface ChannelSettings {
+  minSeverity: Severity;     // Alerts below this severity are not sent to the channel
+  maxPerMinute: number;      // Alerts sent per rolling minute before further ones are dropped; critical ones always go out
+  dedupWindowMs: number;     // An alert with the same key is sent at most once per window
+}
+
+const DEFAULT_CHANNEL_SETTINGS: ChannelSettings = {
+  minSeverity: 'warning',
+  maxPerMinute: 10,
+  dedupWindowMs: 10 * 60 * 1000
+};
+
+const SEVERITY_RANK: Record<Severity, number> = {
+  info: 0,
+  warning: 1,
+  error: 2,
+  critical: 3
+};
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+
+interface ChannelState {
+  channel: NotificationChannel;
+  settings: ChannelSettings;
+  sentAt: number[];
+  lastSentByKey: Map<string, number>;
+  suppressed: number;
+}
+
+/**
+ * Parse a severity from configuration
+ */
+export function parseSeverity(value: string): Severity {
+  if (!Object.hasOwn(SEVERITY_RANK, value)) {
+    throw new Error(`Invalid alert severity "${value}", expected one of ${Object.keys(SEVERITY_RANK).join(', ')}`);
+  }
+  return value as Severity;
+}
+
+/**
+ * Fans alerts out to the configured channels
+ *
+ * Each channel filters by severity, drops repeats of the same alert within its dedup window and
+ * stops sending once its per-minute limit is reached, so a failure that repeats on every tick
+ * produces one message instead of hundreds. Critical alerts are only deduplicated, never rate
+ * limited. The number of dropped alerts is reported with the next message that goes through.
+ * Sending never throws; delivery failures are only logged.
+ */
+export class NotificationService {
+  private channels: ChannelState[] = [];
+  private pending: Set<Promise<void>> = new Set();
+  private label?: string;
+  private logger: Logger;
+
+  constructor(logger: Logger = new Logger()) {
+    this.logger = logger.forService('NotificationService');
+  }
+
+  addChannel(channel: NotificationChannel, settings: Partial<ChannelSettings> = {}): void {
+    const state: ChannelState = {
+      channel,
+      settings: { ...DEFAULT_CHANNEL_SETTINGS, ...settings },
+      sentAt: [],
+      lastSentByKey: new Map(),
+      suppressed: 0
+    };
+    this.channels.push(state);
+    this.logger.info(`🔔 Alerts go to ${channel.name} (severity ${state.settings.minSeverity} and above)`);
+  }
+
+  hasChannels(): boolean {
+    return this.channels.length > 0;
+  }
+
+  /**
+   * Notifier that prefixes alert titles and dedup keys with a label, e.g. the chain a pipeline runs
+   * on; channels, rate limits and pending deliveries stay shared with this one
+   */
+  scoped(label: string): NotificationService {
+    const scoped = new NotificationService(this.logger);
+    scoped.channels = this.channels;
+    scoped.pending = this.pending;
+    scoped.label = label;
+    return scoped;
+  }
+
+  /**
+   * Queue an alert on every channel that accepts it; returns without waiting for delivery
+   */
+  notify(input: NotificationInput): void {
+    const notification: Notification = {
+      ...input,
+      ...(this.label && { title: `[${this.label}] ${input.title}` }),
+      timestamp: Date.now()
+    };
+    const baseKey = input.key ?? `${input.type}:${input.title}`;
+    const key = this.label ? `${this.label}:${baseKey}` : baseKey;
+
+    for (const state of this.channels) {
+      if (SEVERITY_RANK[notification.severity] < SEVERITY_RANK[state.settings.minSeverity]) {
+        continue;
+      }
+
+      const now = notification.timestamp;
+      this.prune(state, now);
+
+      const rateLimited = notification.severity !== 'critical' && state.sentAt.length >= state.settings.maxPerMinute;
+      if (state.lastSentByKey.has(key) || rateLimited) {
+        state.suppressed++;
+        continue;
+      }
+
+      state.sentAt.push(now);
+      state.lastSentByKey.set(key, now);
+
+      const suppressed = state.suppressed;
+      state.suppressed = 0;
+      this.track(this.deliver(state.channel, suppressed > 0
+        ? { ...notification, suppressed, message: `${notification.message}\n(${suppressed} more alerts suppressed since the last one)` }
+        : notification
+      ));
+    }
+  }
+
+  /**
+   * Wait for every queued alert to be delivered, e.g. before the process exits
+   */
+  async flush(): Promise<void> {
+    await Promise.allSettled(Array.from(this.pending));
+  }
+
+  private prune(state: ChannelState, now: number): void {
+    state.sentAt = state.sentAt.filter(sentAt => now - sentAt < RATE_LIMIT_WINDOW_MS);
+    for (const [key, sentAt] of state.lastSentByKey) {
+      if (now - sentAt >= state.settings.dedupWindowMs) {
+        state.lastSentByKey.delete(key);
+      }
+    }
+  }
+
+  private async deliver(channel: NotificationChannel, notification: Notification): Promise<void> {
+    try {
+      await channel.send(notification);
+    } catch (error) {
+      this.logger.warn(`⚠️ Failed to send ${notification.type} alert to ${channel.name}`, { error });
+    }
+  }
+
+  private track(delivery: Promise<void>): void {
+    this.pending.add(delivery);
+    void delivery.finally(() => this.pending.delete(delivery));
+  }
+}
@@ -0,0 +1,422 @@
+import { PublicClient, Abi, AbiEvent, Address, Log, isAddress, parseEventLogs } from 'viem';
+import { AbiService } from './AbiService.js';
+import { PositionService } from './PositionService.js';
+import { NotificationService } from './NotificationService.js';
+import { compare } from '../utils/decimal.js';
+import { Logger, LogContext } from '../utils/logger.js';
+
+const ZERO_ADDRESS: Address = '0x0000000000000000000000000000000000000000';
+
+// eth_getLogs limits vary by provider: ranges are halved down to this size when a request is rejected
+const MIN_LOG_BLOCK_RANGE = 100n;
+const LOG_ADDRESS_CHUNK = 500;
+
+// Decoded with the stabilizer ABI fetched from Etherscan, so args are checked before use
+type DecodedLog = Log & { eventName: string; args: Record<string, unknown> };
+
+/**
+ * Keeps cached positions in sync with the chain by subscribing to the contracts that change them
+ *
+ * - Position escrows: any log (collateral added or removed, shares allocated or unallocated)
+ *   triggers a re-read of the position that owns the escrow
+ * - Stabilizer NFT: new positions, owner transfers, burns and liquidations
+ * - Rate contract: any log re-reads the yield factor, which changes every position's debt
+ */
+export class PositionEventService {
+  private wsClient: PublicClient;
+  private positionService: PositionService;
+  private abiService: AbiService;
+  private stabilizerNftAddress: Address;
+  private stabilizerImplAddress: Address;
+  private rateContractAddress: Address;
+  private logBlockRange: bigint;
+  private unwatchers: (() => void)[] = [];
+  private unwatchEscrows?: () => void;
+  private watchedEscrowCount = 0;
+  private refreshing: Map<string, Promise<void>> = new Map();
+  private refreshQueued: Set<string> = new Set();
+  private notifier?: NotificationService;
+  private logger: Logger;
+
+  constructor(
+    wsClient: PublicClient,
+    positionService: PositionService,
+    abiService: AbiService,
+    stabilizerNftAddress: Address,
+    stabilizerImplAddress: Address,
+    rateContractAddress: Address,
+    logBlockRange: number = 5000,
+    logger: Logger = new Logger()
+  ) {
+    this.wsClient = wsClient;
+    this.positionService = positionService;
+    this.abiService = abiService;
+    this.stabilizerNftAddress = stabilizerNftAddress;
+    this.stabilizerImplAddress = stabilizerImplAddress;
+    this.rateContractAddress = rateContractAddress;
+    this.logBlockRange = BigInt(logBlockRange);
+    this.logger = logger.forService('PositionEventService');
+  }
+
+  /**
+   * Alert through the notifier when a subscription fails
+   */
+  setNotifier(notifier: NotificationService): void {
+    this.notifier = notifier;
+  }
+
+  /**
+   * Subscribe to every event that changes a monitored position
+   */
+  async start(): Promise<void> {
+    const stabilizerAbi = await this.abiService.getContractAbi(this.stabilizerImplAddress);
+    const findEvent = (name: string) => stabilizerAbi.find((item): item is AbiEvent => item.type === 'event' && item.name === name);
+
+    const watch = (eventName: string, subscription: string) => {
+      const event = findEvent(eventName);
+      if (!event) {
+        return;
+      }
+      this.unwatchers.push(this.wsClient.watchContractEvent({
+        address: this.stabilizerNftAddress,
+        abi: [event],
+        eventName,
+        onLogs: (logs) => this.handleStabilizerLogs(decodeLogs(stabilizerAbi, logs)),
+        onError: (error) => {
+          this.reportWatchError(subscription, error);
+        }
+      }));
+    };
+    watch('StabilizerPositionCreated', 'NFT creation event');
+    watch('Transfer', 'Stabilizer transfer event');
+    watch('PositionLiquidated', 'Liquidation event');
+
+    this.unwatchers.push(this.wsClient.watchEvent({
+      address: this.rateContractAddress,
+      onLogs: async () => {
+        try {
+          await this.positionService.refreshYieldFactor();
+        } catch (error) {
+          this.logger.error('❌ Failed to refresh yield factor', { error });
+        }
+      },
+      onError: (error) => {
+        this.reportWatchError('Rate contract event', error);
+      }
+    }));
+
+    this.watchEscrows();
+    this.logger.info(`🎧 Watching position events (${this.watchedEscrowCount} escrows)`);
+  }
+
+  /**
+   * Apply every position change between two blocks, e.g. the time the bot was not running
+   *
+   * Affected positions are re-read rather than patched from event data, so replaying a range
+   * twice is harmless.
+   */
+  async replay(fromBlock: bigint, toBlock: bigint): Promise<void> {
+    if (fromBlock > toBlock) {
+      return;
+    }
+
+    this.logger.info(`⏪ Replaying position events from block ${fromBlock} to ${toBlock}...`);
+    const startedAt = Date.now();
+    const stabilizerAbi = await this.abiService.getContractAbi(this.stabilizerImplAddress);
+    const affected = new Set<bigint>();
+    const burned = new Set<bigint>();
+
+    await this.scanLogs(this.stabilizerNftAddress, fromBlock, toBlock, logs => {
+      for (const log of decodeLogs(stabilizerAbi, logs)) {
+        const tokenId = bigintArg(log, 'tokenId');
+        const positionTokenId = bigintArg(log, 'positionTokenId');
+        if (log.eventName === 'Transfer' && tokenId !== undefined) {
+          (addressArg(log, 'to') === ZERO_ADDRESS ? burned : affected).add(tokenId);
+        } else if (log.eventName === 'StabilizerPositionCreated' && tokenId !== undefined) {
+          affected.add(tokenId);
+        } else if (log.eventName === 'PositionLiquidated' && positionTokenId !== undefined) {
+          affected.add(positionTokenId);
+        }
+      }
+    });
+
+    const escrows = this.positionService.getPositionEscrowAddresses();
+    for (let i = 0; i < escrows.length; i += LOG_ADDRESS_CHUNK) {
+      await this.scanLogs(escrows.slice(i, i + LOG_ADDRESS_CHUNK), fromBlock, toBlock, logs => {
+        for (const log of logs) {
+          const nftId = this.positionService.getNftIdByEscrow(log.address);
+          if (nftId !== undefined) {
+            affected.add(nftId);
+          }
+        }
+      });
+    }
+
+    for (const nftId of burned) {
+      affected.delete(nftId);
+      this.positionService.removePosition(nftId, true);
+    }
+
+    // The yield factor is one read, cheaper than scanning the rate contract's logs
+    await this.positionService.refreshYieldFactor();
+    await this.positionService.refreshPositions(Array.from(affected));
+
+    for (const nftId of affected) {
+      const position = this.positionService.getPosition(nftId);
+      if (position && position.backedShares === 0n) {
+        this.positionService.removePosition(nftId);
+      }
+    }
+
+    this.logger.info(`✅ Replayed ${affected.size} changed and ${burned.size} burned positions in ${Date.now() - startedAt}ms`);
+  }
+
+  /**
+   * Find every live Stabilizer NFT by scanning mint and burn logs from the deployment block
+   */
+  async discoverTokenIds(deploymentTimestamp: number, toBlock: bigint): Promise<bigint[]> {
+    const startedAt = Date.now();
+    const fromBlock = await this.findBlockByTimestamp(deploymentTimestamp, toBlock);
+    this.logger.info(`🔍 Scanning Stabilizer NFT logs from block ${fromBlock} (deployment) to ${toBlock}...`);
+
+    const stabilizerAbi = await this.abiService.getContractAbi(this.stabilizerImplAddress);
+    const tokenIds = new Set<bigint>();
+
+    await this.scanLogs(this.stabilizerNftAddress, fromBlock, toBlock, logs => {
+      for (const log of decodeLogs(stabilizerAbi, logs)) {
+        const tokenId = bigintArg(log, 'tokenId');
+        if (log.eventName === 'Transfer' && tokenId !== undefined) {
+          if (addressArg(log, 'from') === ZERO_ADDRESS) {
+            tokenIds.add(tokenId);
+          } else if (addressArg(log, 'to') === ZERO_ADDRESS) {
+            tokenIds.delete(tokenId);
+          }
+        } else if (log.eventName === 'StabilizerPositionCreated' && tokenId !== undefined) {
+          tokenIds.add(tokenId);
+        }
+      }
+    });
+
+    this.logger.info(`✅ Discovered ${tokenIds.size} Stabilizer NFTs in ${Date.now() - startedAt}ms`);
+    return Array.from(tokenIds).sort(compare);
+  }
+
+  /**
+   * Fetch logs for a block range in chunks, halving the chunk whenever the provider rejects it
+   */
+  private async scanLogs(
+    address: Address | Address[],
+    fromBlock: bigint,
+    toBlock: bigint,
+    onLogs: (logs: Log[]) => void
+  ): Promise<void> {
+    let range = this.logBlockRange;
+    let start = fromBlock;
+
+    while (start <= toBlock) {
+      const end = start + range - 1n < toBlock ? start + range - 1n : toBlock;
+      try {
+        onLogs(await this.wsClient.getLogs({ address, fromBlock: start, toBlock: end }));
+        start = end + 1n;
+      } catch (error) {
+        if (range <= MIN_LOG_BLOCK_RANGE) {
+          throw error;
+        }
+        range /= 2n;
+        this.logger.warn(`⚠️ Log request for blocks ${start}-${end} failed, retrying with ${range} blocks`, { error });
+      }
+    }
+  }
+
+  /**
+   * Binary search for the first block mined at or after a timestamp
+   */
+  private async findBlockByTimestamp(timestamp: number, latestBlock: bigint): Promise<bigint> {
+    // Deployment metadata may carry milliseconds; block timestamps are seconds
+    const target = BigInt(timestamp > 1e12 ? Math.floor(timestamp / 1000) : timestamp);
+
+    let low = 0n;
+    let high = latestBlock;
+    while (low < high) {
+      const middle = (low + high) / 2n;
+      const block = await this.wsClient.getBlock({ blockNumber: middle });
+      if (block.timestamp < target) {
+        low = middle + 1n;
+      } else {
+        high = middle;
+      }
+    }
+
+    return low;
+  }
+
+  /**
+   * Unsubscribe from every event
+   */
+  stop(): void {
+    for (const unwatch of [...this.unwatchers, ...(this.unwatchEscrows ? [this.unwatchEscrows] : [])]) {
+      try {
+        unwatch();
+      } catch (error) {
+        this.logger.error('❌ Error stopping position event watcher', { error });
+      }
+    }
+    this.unwatchers = [];
+    delete this.unwatchEscrows;
+  }
+
+  /**
+   * (Re)subscribe to logs from all known escrows; the address filter is fixed per subscription
+   */
+  private watchEscrows(): void {
+    const escrows = this.positionService.getPositionEscrowAddresses();
+    if (escrows.length === this.watchedEscrowCount && this.unwatchEscrows) {
+      return;
+    }
+
+    this.unwatchEscrows?.();
+    delete this.unwatchEscrows;
+    this.watchedEscrowCount = escrows.length;
+    if (escrows.length === 0) {
+      return;
+    }
+
+    this.unwatchEscrows = this.wsClient.watchEvent({
+      address: escrows,
+      onLogs: (logs) => {
+        // One refresh per escrow, however many logs it emitted
+        const escrowAddresses = new Set(logs.map((log: Log) => log.address));
+        for (const escrow of escrowAddresses) {
+          const nftId = this.positionService.getNftIdByEscrow(escrow);
+          if (nftId !== undefined) {
+            this.scheduleRefresh(nftId);
+          }
+        }
+      },
+      onError: (error) => {
+        this.reportWatchError('Position escrow event', error);
+      }
+    });
+  }
+
+  private reportWatchError(subscription: string, error: Error): void {
+    this.logger.error(`❌ ${subscription} error`, { error });
+    this.notifier?.notify({
+      type: 'websocket.error',
+      severity: 'error',
+      title: `WebSocket subscription failed: ${subscription}`,
+      message: error.message,
+      // A dropped connection fails every subscription at once; alert about it once
+      key: 'websocket.error'
+    });
+  }
+
+  /**
+   * Apply live stabilizer events in order; a failure is logged and does not stop the rest
+   */
+  private async handleStabilizerLogs(logs: DecodedLog[]): Promise<void> {
+    for (const log of logs) {
+      try {
+        await this.handleStabilizerLog(log);
+      } catch (error) {
+        this.logger.error(`❌ Failed to handle ${log.eventName} event`, { error, ...eventContext(log) });
+      }
+    }
+  }
+
+  private async handleStabilizerLog(log: DecodedLog): Promise<void> {
+    const context = eventContext(log);
+
+    if (log.eventName === 'StabilizerPositionCreated') {
+      const tokenId = bigintArg(log, 'tokenId');
+      this.logger.info(`➕ New Stabilizer Position created, owned by ${addressArg(log, 'owner')}`, { nftId: tokenId, ...context });
+      if (tokenId !== undefined) {
+        await this.positionService.addPosition(tokenId);
+        this.watchEscrows();
+      }
+    } else if (log.eventName === 'Transfer') {
+      this.handleTransfer(addressArg(log, 'from'), addressArg(log, 'to'), bigintArg(log, 'tokenId'), context);
+    } else if (log.eventName === 'PositionLiquidated') {
+      const positionTokenId = bigintArg(log, 'positionTokenId');
+      if (positionTokenId !== undefined) {
+        this.logger.info('⚡ Position was liquidated', { nftId: positionTokenId, ...context });
+        this.scheduleRefresh(positionTokenId);
+      }
+    }
+  }
+
+  private handleTransfer(from: Address | undefined, to: Address | undefined, tokenId: bigint | undefined, context: LogContext): void {
+    if (tokenId === undefined || !to) {
+      return;
+    }
+
+    if (to === ZERO_ADDRESS) {
+      this.positionService.removePosition(tokenId, true);
+      this.watchEscrows();
+      return;
+    }
+
+    // Mints are handled by StabilizerPositionCreated
+    if (from !== ZERO_ADDRESS) {
+      this.logger.info(`🔀 Position transferred to ${to}`, { nftId: tokenId, ...context });
+      this.positionService.setPositionOwner(tokenId, to);
+    }
+  }
+
+  /**
+   * Refresh a position, coalescing events that arrive while a refresh is already running
+   *
+   * Positions left without backed shares (liquidated or closed) stop being monitored; their
+   * escrow stays watched so a later allocation brings them back.
+   */
+  private scheduleRefresh(nftId: bigint): void {
+    const key = nftId.toString();
+    if (this.refreshing.has(key)) {
+      this.refreshQueued.add(key);
+      return;
+    }
+
+    const refresh = (async () => {
+      try {
+        do {
+          this.refreshQueued.delete(key);
+          await this.positionService.refreshPosition(nftId);
+        } while (this.refreshQueued.has(key));
+
+        const position = this.positionService.getPosition(nftId);
+        if (position && position.backedShares === 0n) {
+          this.positionService.removePosition(nftId);
+        }
+      } catch (error) {
+        this.logger.error('❌ Failed to refresh position', { nftId, error });
+      } finally {
+        this.refreshing.delete(key);
+      }
+    })();
+
+    this.refreshing.set(key, refresh);
+  }
+}
+
+// Where an event came from, attached to the lines logged for it
+function eventContext(log: Log): LogContext {
+  return { block: log.blockNumber, txHash: log.transactionHash };
+}
+
+function decodeLogs(abi: Abi, logs: Log[]): DecodedLog[] {
+  return parseEventLogs({ abi, logs, strict: false }).map(log => ({
+    ...log,
+    eventName: String(log.eventName),
+    args: typeof log.args === 'object' && log.args !== null && !Array.isArray(log.args) ? log.args as Record<string, unknown> : {}
+  }));
+}
+
+function bigintArg(log: DecodedLog, name: string): bigint | undefined {
+  const value = log.args[name];
+  return typeof value === 'bigint' ? value : undefined;
+}
+
+function addressArg(log: DecodedLog, name: string): Address | undefined {
+  const value = log.args[name];
+  return typeof value === 'string' && isAddress(value, { strict: false }) ? value : undefined;
+}
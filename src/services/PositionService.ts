@@ -1,6 +1,10 @@
-import { PublicClient, Address, parseUnits } from 'viem';
+import { PublicClient, Address, ContractFunctionParameters, isAddress, maxUint256, parseUnits } from 'viem';
 import { PriceData } from './PriceService.js';
 import { AbiService } from './AbiService.js';
+import { PositionState } from './PositionStore.js';
+import { NotificationService } from './NotificationService.js';
+import { BPS, WAD, abs, compare, formatBps, formatDecimal, formatTokenAmount, max, pow10, scaleDecimals, toBps } from '../utils/decimal.js';
+import { Logger } from '../utils/logger.js';
 
 export interface StabilizerPosition {
   nftId: bigint;
@@ -9,15 +13,124 @@ export interface StabilizerPosition {
   collateralAmount: bigint;
   backedShares: bigint;
   uspdDebt: bigint;
-  collateralizationRatio: number;
+  collateralizationRatioBps: bigint;    // 10000 = 100%
   isLiquidatable: boolean;
-  liquidationThreshold: number;
+  liquidationThresholdBps: bigint;
+  liquidationPriceWad: bigint;          // ETH price (USD, 18 decimals) below which the ratio falls under the threshold
   lastUpdated: number;
 }
 
+export interface PositionBatchSettings {
+  discoveryBatchSize: number;   // NFTs loaded per Multicall3 round during discovery
+  updateBatchSize: number;      // Collateralization ratios read per Multicall3 call
+}
+
+type MulticallResult =
+  | { status: 'success'; result: unknown }
+  | { status: 'failure'; error: Error };
+
+const DEFAULT_BATCH_SETTINGS: PositionBatchSettings = {
+  discoveryBatchSize: 100,
+  updateBatchSize: 200
+};
+
+const ZERO_ADDRESS: Address = '0x0000000000000000000000000000000000000000';
+
+// Local and on-chain ratios may differ by rounding only; anything larger means the cache is stale
+const RATIO_DRIFT_TOLERANCE_BPS = 1n;
+
+/**
+ * Collateralization ratio in basis points, following PositionEscrow.getCollateralizationRatio:
+ *
+ *   liability  = backedShares * yieldFactor / 1e18
+ *   collateral = stEthBalance * price / 10^decimals
+ *   ratio      = collateral * 10000 / liability
+ *
+ * Each division truncates in the same order as the contract source. This is not checked against
+ * recorded chain state; the periodic on-chain refresh warns when the two disagree. Positions
+ * without liability report max uint256, like the contract.
+ */
+export function calculateCollateralizationRatioBps(
+  collateralAmount: bigint,
+  backedShares: bigint,
+  yieldFactor: bigint,
+  price: bigint,
+  priceDecimals: number
+): bigint {
+  const liability = backedShares * yieldFactor / WAD;
+  if (liability === 0n) {
+    return maxUint256;
+  }
+
+  const collateralValue = collateralAmount * price / pow10(priceDecimals);
+  return collateralValue * BPS / liability;
+}
+
+/**
+ * ETH price at which a position's ratio falls to the liquidation threshold, with 18 decimals:
+ *
+ *   price = threshold * liability * 1e18 / (collateral * 10000)
+ *
+ * Positions without liability are never liquidatable and report 0; positions with liability but no
+ * collateral are liquidatable at any price and report max uint256.
+ */
+export function calculateLiquidationPriceWad(
+  collateralAmount: bigint,
+  backedShares: bigint,
+  yieldFactor: bigint,
+  liquidationThresholdBps: bigint
+): bigint {
+  const liability = backedShares * yieldFactor / WAD;
+  if (liability === 0n) {
+    return 0n;
+  }
+  if (collateralAmount === 0n) {
+    return maxUint256;
+  }
+
+  return liquidationThresholdBps * liability * WAD / (collateralAmount * BPS);
+}
+
+/**
+ * Ratio in basis points below which a liquidator NFT may liquidate positions: 125% for NFT 1, half
+ * a percent less for every later NFT down to 110%, and 110% without an NFT (ID 0)
+ */
+export function liquidatorThresholdBps(liquidatorTokenId: bigint): bigint {
+  if (liquidatorTokenId === 0n) {
+    return 11000n;
+  }
+  return max(12500n - (liquidatorTokenId - 1n) * 50n, 11000n);
+}
+
+// Results are decoded with ABIs fetched from Etherscan, so their types are checked rather than assumed
+function asBigint(value: unknown, functionName: string): bigint {
+  if (typeof value !== 'bigint') {
+    throw new Error(`${functionName} returned ${typeof value}, expected an integer`);
+  }
+  return value;
+}
+
+function asAddress(value: unknown, functionName: string): Address {
+  if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+    throw new Error(`${functionName} returned ${String(value)}, expected an address`);
+  }
+  return value;
+}
+
+function firstFailure(...results: MulticallResult[]): Error | undefined {
+  for (const result of results) {
+    if (result.status === 'failure') {
+      return result.error;
+    }
+  }
+  return undefined;
+}
+
 export class PositionService {
   private positions: Map<string, StabilizerPosition> = new Map();
   private positionEscrowAddresses: Map<string, Address> = new Map();
+  private yieldFactor?: bigint;
+  private lastPriceData?: PriceData;
   private stabilizerNftAddress: Address;
   private stabilizerImplAddress: Address;
   private positionEscrowImplAddress: Address;
@@ -28,6 +141,9 @@ export class PositionService {
   private stabilizerNftAbi: any[] = [];
   private positionEscrowAbi: any[] = [];
   private rateContractAbi: any[] = [];
+  private batchSettings: PositionBatchSettings;
+  private notifier?: NotificationService;
+  private logger: Logger;
 
   constructor(
     publicClient: PublicClient, 
@@ -36,7 +152,9 @@ export class PositionService {
     positionEscrowImplAddress: Address,
     rateContractAddress: Address,
     abiService: AbiService,
-    liquidatorNftId: bigint = 0n
+    liquidatorNftId: bigint = 0n,
+    batchSettings: Partial<PositionBatchSettings> = {},
+    logger: Logger = new Logger()
   ) {
     this.publicClient = publicClient;
     this.stabilizerNftAddress = stabilizerNftAddress;
@@ -45,86 +163,112 @@ export class PositionService {
     this.rateContractAddress = rateContractAddress;
     this.abiService = abiService;
     this.liquidatorNftId = liquidatorNftId;
+    this.batchSettings = { ...DEFAULT_BATCH_SETTINGS, ...batchSettings };
+    this.logger = logger.forService('PositionService');
   }
 
   /**
-   * Format a token amount with human-readable value in parentheses
+   * Alert through the notifier when positions become liquidatable or drift from the contract
    */
-  private formatTokenAmount(amount: bigint, decimals: number = 18, symbol: string = ''): string {
-    const scaled = Number(amount) / Math.pow(10, decimals);
-    return `${amount.toString()} ${symbol}(${scaled.toFixed(4)} ${symbol})`.trim();
-  }
-
-  /**
-   * Format ETH amount with human-readable value
-   */
-  private formatEthAmount(amount: bigint): string {
-    return this.formatTokenAmount(amount, 18, 'ETH ');
+  setNotifier(notifier: NotificationService): void {
+    this.notifier = notifier;
   }
 
   /**
    * Format USPD amount with human-readable value
    */
   private formatUspdAmount(amount: bigint): string {
-    return this.formatTokenAmount(amount, 18, 'USPD ');
+    return formatTokenAmount(amount, 18, 'USPD ');
   }
 
   /**
    * Format cUSPD shares with human-readable value
    */
   private formatCuspdAmount(amount: bigint): string {
-    return this.formatTokenAmount(amount, 18, 'cUSPD ');
+    return formatTokenAmount(amount, 18, 'cUSPD ');
   }
 
   /**
-   * Initialize positions by querying existing NFTs
+   * Initialize positions for the given NFT IDs, cross-checking their number against totalSupply
    */
-  async initializePositions(): Promise<void> {
-    console.log('🔍 Initializing stabilizer positions...');
+  async initializePositions(tokenIds: bigint[]): Promise<void> {
+    this.logger.info('🔍 Initializing stabilizer positions...');
+    const startedAt = Date.now();
     
     try {
       // Load ABIs first
       await this.loadAbis();
 
       // Get total supply of Stabilizer NFTs
-      const totalSupply = await this.publicClient.readContract({
+      const totalSupply = asBigint(await this.publicClient.readContract({
         address: this.stabilizerNftAddress as `0x${string}`,
         abi: this.stabilizerNftAbi,
         functionName: 'totalSupply',
         args: []
-      });
+      }), 'totalSupply');
 
-      console.log(`📊 Found ${totalSupply} total Stabilizer NFTs`);
+      this.logger.info(`📊 Found ${totalSupply} total Stabilizer NFTs, ${tokenIds.length} discovered from logs`);
+      if (BigInt(tokenIds.length) !== totalSupply) {
+        this.logger.warn(`⚠️ Discovered ${tokenIds.length} NFTs from logs but totalSupply is ${totalSupply}, positions may be missing or stale`);
+      }
 
-      // Query each NFT to get position data
-      const batchSize = 10; // Process in batches to avoid RPC limits
-      for (let i = 1n; i <= totalSupply; i += BigInt(batchSize)) {
-        const batch = [];
-        const endIndex = i + BigInt(batchSize) - 1n;
-        const actualEnd = endIndex > totalSupply ? totalSupply : endIndex;
+      // Query NFTs in multicall batches to keep the number of RPC requests low
+      const batchSize = this.batchSettings.discoveryBatchSize;
+      for (let i = 0; i < tokenIds.length; i += batchSize) {
+        const batch = tokenIds.slice(i, i + batchSize);
 
-        for (let tokenId = i; tokenId <= actualEnd; tokenId++) {
-          batch.push(this.initializePosition(tokenId));
+        try {
+          await this.loadPositions(batch);
+        } catch (error) {
+          this.logger.error(`❌ Failed to initialize NFTs ${batch[0]} to ${batch[batch.length - 1]}`, { error });
         }
-
-        await Promise.allSettled(batch);
-        console.log(`📈 Processed NFTs ${i} to ${actualEnd}`);
+        this.logger.debug(`📈 Processed NFTs ${batch[0]} to ${batch[batch.length - 1]}`);
       }
 
       const activePositions = Array.from(this.positions.values()).filter(p => p.backedShares > 0n);
-      console.log(`📊 Initialized ${this.positions.size} total positions, ${activePositions.length} active`);
+      this.logger.info(`📊 Initialized ${this.positions.size} total positions, ${activePositions.length} active in ${Date.now() - startedAt}ms`);
     } catch (error) {
-      console.error('❌ Failed to initialize positions:', error);
+      this.logger.error('❌ Failed to initialize positions', { error });
       throw error;
     }
   }
 
+  /**
+   * Restore positions from a stored snapshot instead of rescanning every NFT
+   */
+  async restoreState(state: PositionState): Promise<void> {
+    await this.loadAbis();
+
+    this.positions = new Map(state.positions.map(position => [position.nftId.toString(), position]));
+    this.positionEscrowAddresses = new Map(Object.entries(state.escrows));
+    if (state.yieldFactor !== undefined) {
+      this.yieldFactor = state.yieldFactor;
+    }
+    for (const position of this.positions.values()) {
+      this.updateLiquidationPrice(position);
+    }
+
+    const activePositions = state.positions.filter(p => p.backedShares > 0n);
+    this.logger.info(`📦 Restored ${this.positions.size} positions, ${activePositions.length} active`);
+  }
+
+  /**
+   * Export the position state for the persistent store
+   */
+  exportState(): PositionState {
+    return {
+      positions: Array.from(this.positions.values()),
+      escrows: Object.fromEntries(this.positionEscrowAddresses),
+      ...(this.yieldFactor !== undefined && { yieldFactor: this.yieldFactor })
+    };
+  }
+
   /**
    * Load ABIs from cache or fetch from Etherscan
    */
   private async loadAbis(): Promise<void> {
     try {
-      console.log('📋 Loading contract ABIs...');
+      this.logger.info('📋 Loading contract ABIs...');
       
       // Load Stabilizer Implementation ABI (for proxy contract)
       this.stabilizerNftAbi = await this.abiService.getContractAbi(this.stabilizerImplAddress);
@@ -135,9 +279,9 @@ export class PositionService {
       // Load Rate Contract ABI
       this.rateContractAbi = await this.abiService.getContractAbi(this.rateContractAddress);
       
-      console.log('✅ Contract ABIs loaded successfully');
+      this.logger.info('✅ Contract ABIs loaded successfully');
     } catch (error) {
-      console.error('❌ Failed to load ABIs:', error);
+      this.logger.error('❌ Failed to load ABIs', { error });
       throw error;
     }
   }
@@ -147,139 +291,363 @@ export class PositionService {
    */
   private async initializePosition(nftId: bigint): Promise<void> {
     try {
-      // Get position escrow address
-      const positionEscrowAddress = await this.publicClient.readContract({
+      await this.loadPositions([nftId]);
+    } catch (error) {
+      this.logger.error('❌ Failed to initialize position', { nftId, error });
+    }
+  }
+
+  /**
+   * Load a batch of positions with two multicalls: escrow addresses and owners first,
+   * then escrow balances together with a single yield factor read
+   */
+  private async loadPositions(nftIds: bigint[]): Promise<void> {
+    const identities = await this.multicall(nftIds.flatMap(nftId => [
+      {
         address: this.stabilizerNftAddress,
         abi: this.stabilizerNftAbi,
         functionName: 'positionEscrows',
         args: [nftId]
-      }) as Address;
+      },
+      {
+        address: this.stabilizerNftAddress,
+        abi: this.stabilizerNftAbi,
+        functionName: 'ownerOf',
+        args: [nftId]
+      }
+    ]));
+
+    const found: { nftId: bigint; owner: Address; positionEscrowAddress: Address }[] = [];
+    nftIds.forEach((nftId, index) => {
+      const escrowResult = identities[index * 2]!;
+      const ownerResult = identities[index * 2 + 1]!;
+      if (escrowResult.status === 'failure' || ownerResult.status === 'failure') {
+        this.logger.error('❌ Failed to initialize position', { nftId, error: firstFailure(escrowResult, ownerResult)?.message });
+        return;
+      }
 
       // Skip if no escrow address (shouldn't happen but safety check)
-      if (positionEscrowAddress === '0x0000000000000000000000000000000000000000') {
+      const positionEscrowAddress = asAddress(escrowResult.result, 'positionEscrows');
+      if (positionEscrowAddress === ZERO_ADDRESS) {
         return;
       }
 
-      // Get owner
-      const owner = await this.publicClient.readContract({
-        address: this.stabilizerNftAddress,
-        abi: this.stabilizerNftAbi,
-        functionName: 'ownerOf',
-        args: [nftId]
-      }) as Address;
+      found.push({ nftId, owner: asAddress(ownerResult.result, 'ownerOf'), positionEscrowAddress });
+    });
 
-      // Get position data from escrow and yield factor
-      const [collateralAmount, backedShares, yieldFactor] = await Promise.all([
-        this.publicClient.readContract({
+    if (found.length === 0) {
+      return;
+    }
+
+    // Get position data from escrows; the yield factor is shared by all positions
+    const [yieldFactorResult, ...escrowResults] = await this.multicall([
+      {
+        address: this.rateContractAddress,
+        abi: this.rateContractAbi,
+        functionName: 'getYieldFactor',
+        args: []
+      },
+      ...found.flatMap(({ positionEscrowAddress }) => [
+        {
           address: positionEscrowAddress,
           abi: this.positionEscrowAbi,
-          functionName: 'getCurrentStEthBalance'
-        }),
-        this.publicClient.readContract({
+          functionName: 'getCurrentStEthBalance',
+          args: []
+        },
+        {
           address: positionEscrowAddress,
           abi: this.positionEscrowAbi,
-          functionName: 'backedPoolShares'
-        }),
-        // Get current yield factor from rate contract
-        this.publicClient.readContract({
-          address: this.rateContractAddress,
-          abi: this.rateContractAbi,
-          functionName: 'getYieldFactor'
-        })
-      ]);
+          functionName: 'backedPoolShares',
+          args: []
+        }
+      ])
+    ]);
+
+    if (yieldFactorResult!.status === 'failure') {
+      throw yieldFactorResult!.error;
+    }
+    const yieldFactor = asBigint(yieldFactorResult!.result, 'getYieldFactor');
+    this.yieldFactor = yieldFactor;
+
+    found.forEach(({ nftId, owner, positionEscrowAddress }, index) => {
+      const collateralResult = escrowResults[index * 2]!;
+      const sharesResult = escrowResults[index * 2 + 1]!;
+      if (collateralResult.status === 'failure' || sharesResult.status === 'failure') {
+        this.logger.error('❌ Failed to read escrow of position', { nftId, error: firstFailure(collateralResult, sharesResult)?.message });
+        return;
+      }
+
+      const collateralAmount = asBigint(collateralResult.result, 'getCurrentStEthBalance');
+      const backedShares = asBigint(sharesResult.result, 'backedPoolShares');
 
       // Convert cUSPD shares to actual USPD debt using yield factor
       // uspdDebt = backedShares * yieldFactor / FACTOR_PRECISION
-      const FACTOR_PRECISION = BigInt(1e18);
-      const uspdDebt = (backedShares as bigint) * (yieldFactor as bigint) / FACTOR_PRECISION;
+      const uspdDebt = backedShares * yieldFactor / WAD;
 
       // Log the conversion
-      const yieldFactorNumber = Number(yieldFactor as bigint) / 1e18;
-      console.log(`📊 Position ${nftId}: ${this.formatCuspdAmount(backedShares as bigint)}shares × ${yieldFactorNumber.toFixed(4)} yield factor → ${this.formatUspdAmount(uspdDebt)}debt`);
+      this.logger.debug(`📊 ${this.formatCuspdAmount(backedShares)}shares × ${formatDecimal(yieldFactor, 18, 4)} yield factor → ${this.formatUspdAmount(uspdDebt)}debt`, { nftId });
 
       // Store position
+      const liquidationThresholdBps = liquidatorThresholdBps(this.liquidatorNftId);
       const position: StabilizerPosition = {
         nftId,
         owner,
         positionEscrowAddress,
-        collateralAmount: collateralAmount as bigint,
-        backedShares: backedShares as bigint,
-        uspdDebt: uspdDebt as bigint,
-        collateralizationRatio: 0, // Will be calculated when price is available
+        collateralAmount,
+        backedShares,
+        uspdDebt,
+        collateralizationRatioBps: 0n, // Will be calculated when price is available
         isLiquidatable: false,
-        liquidationThreshold: this.calculateLiquidationThreshold(this.liquidatorNftId),
+        liquidationThresholdBps,
+        liquidationPriceWad: calculateLiquidationPriceWad(collateralAmount, backedShares, yieldFactor, liquidationThresholdBps),
         lastUpdated: Date.now()
       };
 
       this.positions.set(nftId.toString(), position);
       this.positionEscrowAddresses.set(nftId.toString(), positionEscrowAddress);
+    });
+  }
 
-    } catch (error) {
-      console.error(`❌ Failed to initialize position ${nftId}:`, error);
-    }
+  /**
+   * Run read calls through Multicall3 without failing the whole batch on a single revert
+   *
+   * viem's own byte-size chunking is disabled so the configured batch sizes decide
+   * how many calls go into each request.
+   */
+  private async multicall(contracts: ContractFunctionParameters[]): Promise<MulticallResult[]> {
+    return await this.publicClient.multicall({
+      contracts,
+      allowFailure: true,
+      batchSize: 0
+    });
   }
 
   /**
    * Update position data with current price
    */
   async updatePosition(nftId: bigint, priceData: PriceData): Promise<void> {
+    this.lastPriceData = priceData;
+
+    const position = this.positions.get(nftId.toString());
+    if (!position) {
+      this.logger.warn('⚠️ Position not found for update', { nftId });
+      return;
+    }
+
     try {
-      const position = this.positions.get(nftId.toString());
-      if (!position) {
-        console.warn(`⚠️ Position ${nftId} not found for update`);
-        return;
+      await this.updatePositions([position], priceData);
+    } catch (error) {
+      this.logger.error('❌ Failed to update position', { nftId, error });
+    }
+  }
+
+  /**
+   * Update all positions with current price
+   */
+  async updateAllPositions(priceData: PriceData): Promise<void> {
+    this.lastPriceData = priceData;
+    const activePositions = Array.from(this.positions.values()).filter(p => p.backedShares > 0n);
+    const startedAt = Date.now();
+    
+    this.logger.info(`🔄 Updating ${activePositions.length} active positions...`);
+
+    // One multicall per batch instead of one request per position
+    const batchSize = this.batchSettings.updateBatchSize;
+    for (let i = 0; i < activePositions.length; i += batchSize) {
+      const batch = activePositions.slice(i, i + batchSize);
+      try {
+        await this.updatePositions(batch, priceData);
+      } catch (error) {
+        this.logger.error(`❌ Failed to update positions ${batch[0]!.nftId} to ${batch[batch.length - 1]!.nftId}`, { error });
       }
+    }
 
-      // Create price response for contract call (simplified structure)
-      const priceResponse = {
-        price: parseUnits(priceData.price, 0), // Price is already in wei format
-        decimals: priceData.decimals,
-        timestamp: BigInt(Math.floor(priceData.dataTimestamp / 1000))
-      };
+    this.logger.info(`✅ Updated ${activePositions.length} positions in ${Date.now() - startedAt}ms`);
+  }
 
-      // Get updated collateralization ratio from contract
-      const ratioRaw = await this.publicClient.readContract({
+  /**
+   * Read the collateralization ratios and stETH balances of a batch of positions in a single multicall
+   *
+   * The on-chain ratio is compared with the local computation as a running check that the cached
+   * inputs and the formula still match the contract.
+   */
+  private async updatePositions(positions: StabilizerPosition[], priceData: PriceData): Promise<void> {
+    // Create price response for contract call (simplified structure)
+    const priceResponse = {
+      price: parseUnits(priceData.price, 0), // Price is already in wei format
+      decimals: priceData.decimals,
+      timestamp: BigInt(Math.floor(priceData.dataTimestamp / 1000))
+    };
+
+    // Get updated collateralization ratios from contract, in basis points (10000 = 100%),
+    // along with the stETH balance, which rebases without emitting escrow events
+    const results = await this.multicall(positions.flatMap(position => [
+      {
         address: position.positionEscrowAddress,
         abi: this.positionEscrowAbi,
         functionName: 'getCollateralizationRatio',
         args: [priceResponse]
-      }) as bigint;
+      },
+      {
+        address: position.positionEscrowAddress,
+        abi: this.positionEscrowAbi,
+        functionName: 'getCurrentStEthBalance',
+        args: []
+      }
+    ]));
 
-      // Convert ratio from basis points (10000 = 100%) to percentage
-      const ratio = Number(ratioRaw) / 100;
+    positions.forEach((position, index) => {
+      const ratioResult = results[index * 2]!;
+      const collateralResult = results[index * 2 + 1]!;
+      if (ratioResult.status === 'failure' || collateralResult.status === 'failure') {
+        this.logger.error('❌ Failed to update position', { nftId: position.nftId, error: firstFailure(ratioResult, collateralResult)?.message });
+        return;
+      }
+
+      const ratio = asBigint(ratioResult.result, 'getCollateralizationRatio');
+      position.collateralAmount = asBigint(collateralResult.result, 'getCurrentStEthBalance');
+      this.updateLiquidationPrice(position);
+
+      if (this.yieldFactor !== undefined) {
+        const localRatio = calculateCollateralizationRatioBps(
+          position.collateralAmount,
+          position.backedShares,
+          this.yieldFactor,
+          priceResponse.price,
+          priceData.decimals
+        );
+        if (abs(localRatio - ratio) > RATIO_DRIFT_TOLERANCE_BPS) {
+          this.logger.warn(`⚠️ Local ratio ${formatBps(localRatio)}% differs from on-chain ${formatBps(ratio)}%`, { nftId: position.nftId });
+          this.notifier?.notify({
+            type: 'position.ratio_drift',
+            severity: 'warning',
+            title: `Position ${position.nftId} ratio differs from the contract`,
+            message: `Local ${formatBps(localRatio)}%, on-chain ${formatBps(ratio)}%; the cached position state is stale`
+          });
+        }
+      }
 
       // Update position
-      position.collateralizationRatio = ratio;
-      position.isLiquidatable = ratio < position.liquidationThreshold && position.backedShares > 0n;
+      position.collateralizationRatioBps = ratio;
+      position.isLiquidatable = ratio < position.liquidationThresholdBps && position.backedShares > 0n;
       position.lastUpdated = Date.now();
 
-      this.positions.set(nftId.toString(), position);
+      this.positions.set(position.nftId.toString(), position);
 
       if (position.isLiquidatable) {
-        console.log(`🎯 Position ${nftId} is liquidatable: ${ratio.toFixed(2)}% < ${position.liquidationThreshold}%`);
+        this.logger.info(`🎯 Position is liquidatable: ${formatBps(ratio)}% < ${formatBps(position.liquidationThresholdBps)}%`, { nftId: position.nftId });
+        this.notifier?.notify({
+          type: 'position.liquidatable',
+          severity: 'warning',
+          title: `Position ${position.nftId} is liquidatable`,
+          message: `Ratio ${formatBps(ratio)}% is below the ${formatBps(position.liquidationThresholdBps)}% threshold (debt ${this.formatUspdAmount(position.uspdDebt)}, owner ${position.owner})`
+        });
       }
+    });
+  }
 
-    } catch (error) {
-      console.error(`❌ Failed to update position ${nftId}:`, error);
+  /**
+   * Recompute every active position's ratio from cached state and the given price, without any RPC
+   *
+   * Returns the positions that became liquidatable; they should be confirmed with
+   * confirmLiquidatablePositions before acting on them.
+   */
+  recalculatePositions(priceData: PriceData): StabilizerPosition[] {
+    this.lastPriceData = priceData;
+    if (this.yieldFactor === undefined) {
+      return [];
+    }
+
+    const price = parseUnits(priceData.price, 0);
+    const newlyLiquidatable: StabilizerPosition[] = [];
+
+    for (const position of this.positions.values()) {
+      if (position.backedShares === 0n) {
+        continue;
+      }
+
+      const wasLiquidatable = position.isLiquidatable;
+      this.updateLiquidationPrice(position);
+      position.collateralizationRatioBps = calculateCollateralizationRatioBps(
+        position.collateralAmount,
+        position.backedShares,
+        this.yieldFactor,
+        price,
+        priceData.decimals
+      );
+      position.isLiquidatable = position.collateralizationRatioBps < position.liquidationThresholdBps;
+
+      if (position.isLiquidatable && !wasLiquidatable) {
+        newlyLiquidatable.push(position);
+      }
     }
+
+    return newlyLiquidatable;
   }
 
   /**
-   * Update all positions with current price
+   * Distance in basis points from the current price down to the nearest liquidation price of a
+   * position that is not yet liquidatable, or undefined when there is none
    */
-  async updateAllPositions(priceData: PriceData): Promise<void> {
-    const activePositions = Array.from(this.positions.values()).filter(p => p.backedShares > 0n);
-    
-    console.log(`🔄 Updating ${activePositions.length} active positions...`);
+  getClosestLiquidationDistanceBps(priceData: PriceData): bigint | undefined {
+    let closest: bigint | undefined;
 
-    // Update in batches to avoid overwhelming the RPC
-    const batchSize = 5;
-    for (let i = 0; i < activePositions.length; i += batchSize) {
-      const batch = activePositions.slice(i, i + batchSize);
-      const updatePromises = batch.map(pos => this.updatePosition(pos.nftId, priceData));
-      
-      await Promise.allSettled(updatePromises);
+    for (const position of this.positions.values()) {
+      if (position.backedShares === 0n || position.isLiquidatable) {
+        continue;
+      }
+
+      const distance = this.getLiquidationDistanceBps(position, priceData);
+      if (distance !== undefined && (closest === undefined || distance < closest)) {
+        closest = distance;
+      }
+    }
+
+    return closest;
+  }
+
+  /**
+   * Distance in basis points from the current price down to a position's liquidation price,
+   * or undefined when the price is already at or below it
+   */
+  getLiquidationDistanceBps(position: StabilizerPosition, priceData: PriceData): bigint | undefined {
+    const price = scaleDecimals(parseUnits(priceData.price, 0), priceData.decimals, 18);
+    if (price === 0n || position.liquidationPriceWad >= price) {
+      return undefined;
+    }
+    return toBps(price - position.liquidationPriceWad, price);
+  }
+
+  /**
+   * Active positions that are not liquidatable yet but within the given distance of their
+   * liquidation price, closest first
+   */
+  getWatchlist(priceData: PriceData, maxDistanceBps: bigint): StabilizerPosition[] {
+    return Array.from(this.positions.values())
+      .filter(position => position.backedShares > 0n && !position.isLiquidatable)
+      .map(position => ({ position, distance: this.getLiquidationDistanceBps(position, priceData) }))
+      .filter(({ distance }) => distance !== undefined && distance <= maxDistanceBps)
+      .sort((a, b) => compare(a.distance!, b.distance!))
+      .map(({ position }) => position);
+  }
+
+  /**
+   * Confirm locally flagged positions against the contract before they are liquidated
+   */
+  async confirmLiquidatablePositions(priceData: PriceData): Promise<StabilizerPosition[]> {
+    const candidates = this.getLiquidatablePositions();
+    const batchSize = this.batchSettings.updateBatchSize;
+
+    for (let i = 0; i < candidates.length; i += batchSize) {
+      const batch = candidates.slice(i, i + batchSize);
+      try {
+        await this.updatePositions(batch, priceData);
+      } catch (error) {
+        this.logger.error('❌ Failed to confirm liquidatable positions on-chain', { error });
+      }
     }
+
+    return this.getLiquidatablePositions();
   }
 
   /**
@@ -300,24 +668,131 @@ export class PositionService {
    * Add a new position (called when monitoring events)
    */
   async addPosition(nftId: bigint): Promise<void> {
-    console.log(`➕ Adding new position ${nftId} to monitoring`);
+    this.logger.info('➕ Adding new position to monitoring', { nftId });
     await this.initializePosition(nftId);
   }
 
   /**
-   * Calculate liquidation threshold based on liquidator's NFT ID
+   * Re-read a position's escrow state after an on-chain change and confirm its ratio on-chain
    */
-  private calculateLiquidationThreshold(liquidatorTokenId: bigint): number {
-    if (liquidatorTokenId === 0n) {
-      return 110.00; // Default threshold (110%)
+  async refreshPosition(nftId: bigint): Promise<void> {
+    await this.refreshPositions([nftId]);
+
+    const position = this.positions.get(nftId.toString());
+    if (this.lastPriceData && position && position.backedShares > 0n) {
+      await this.updatePosition(nftId, this.lastPriceData);
+    }
+  }
+
+  /**
+   * Re-read the escrow state of several positions in multicall batches, keeping their last known
+   * ratios until they are recomputed against the most recent price
+   */
+  async refreshPositions(nftIds: bigint[]): Promise<void> {
+    const previous = new Map(nftIds.map(nftId => [nftId.toString(), this.positions.get(nftId.toString())]));
+
+    const batchSize = this.batchSettings.discoveryBatchSize;
+    for (let i = 0; i < nftIds.length; i += batchSize) {
+      const batch = nftIds.slice(i, i + batchSize);
+      try {
+        await this.loadPositions(batch);
+      } catch (error) {
+        this.logger.error(`❌ Failed to refresh positions ${batch.join(', ')}`, { error });
+      }
+    }
+
+    for (const [key, before] of previous) {
+      const position = this.positions.get(key);
+      if (before && position && position !== before) {
+        position.collateralizationRatioBps = before.collateralizationRatioBps;
+        position.isLiquidatable = before.isLiquidatable && position.backedShares > 0n;
+      }
+    }
+
+    if (this.lastPriceData) {
+      this.recalculatePositions(this.lastPriceData);
+    }
+  }
+
+  /**
+   * Stop monitoring a position; its escrow stays known unless the NFT itself is gone
+   */
+  removePosition(nftId: bigint, burned: boolean = false): void {
+    const key = nftId.toString();
+    if (this.positions.delete(key)) {
+      this.logger.info(`➖ Removed position from monitoring${burned ? ' (NFT burned)' : ''}`, { nftId });
+    }
+    if (burned) {
+      this.positionEscrowAddresses.delete(key);
+    }
+  }
+
+  /**
+   * Record a new owner after an NFT transfer
+   */
+  setPositionOwner(nftId: bigint, owner: Address): void {
+    const position = this.positions.get(nftId.toString());
+    if (position) {
+      position.owner = owner;
+      position.lastUpdated = Date.now();
     }
+  }
+
+  /**
+   * Re-read the yield factor and recompute every position's USPD debt and ratio from its shares
+   */
+  async refreshYieldFactor(): Promise<void> {
+    const yieldFactor = asBigint(await this.publicClient.readContract({
+      address: this.rateContractAddress,
+      abi: this.rateContractAbi,
+      functionName: 'getYieldFactor',
+      args: []
+    }), 'getYieldFactor');
+
+    if (yieldFactor === this.yieldFactor) {
+      return;
+    }
+
+    this.logger.info(`📈 Yield factor changed: ${this.yieldFactor !== undefined ? formatDecimal(this.yieldFactor, 18, 6) : 'unknown'} → ${formatDecimal(yieldFactor, 18, 6)}`);
+    this.yieldFactor = yieldFactor;
+
+    for (const position of this.positions.values()) {
+      position.uspdDebt = position.backedShares * yieldFactor / WAD;
+      this.updateLiquidationPrice(position);
+      position.lastUpdated = Date.now();
+    }
+
+    if (this.lastPriceData) {
+      this.recalculatePositions(this.lastPriceData);
+    }
+  }
 
-    const baseThreshold = 125.00; // 125%
-    const minThreshold = 110.00;  // 110%
-    const decrement = Number(liquidatorTokenId - 1n) * 0.5; // 0.5% per ID
+  /**
+   * Recompute a position's liquidation price from its cached collateral, shares and the yield factor
+   */
+  private updateLiquidationPrice(position: StabilizerPosition): void {
+    if (this.yieldFactor === undefined) {
+      return;
+    }
+    position.liquidationPriceWad = calculateLiquidationPriceWad(
+      position.collateralAmount,
+      position.backedShares,
+      this.yieldFactor,
+      position.liquidationThresholdBps
+    );
+  }
 
-    const calculatedThreshold = baseThreshold - decrement;
-    return Math.max(calculatedThreshold, minThreshold);
+  /**
+   * Find the NFT ID owning a position escrow
+   */
+  getNftIdByEscrow(escrowAddress: Address): bigint | undefined {
+    const target = escrowAddress.toLowerCase();
+    for (const [key, address] of this.positionEscrowAddresses) {
+      if (address.toLowerCase() === target) {
+        return BigInt(key);
+      }
+    }
+    return undefined;
   }
 
   /**
@@ -327,6 +802,13 @@ export class PositionService {
     return Array.from(this.positionEscrowAddresses.values());
   }
 
+  /**
+   * Get every monitored position, including those without backed shares
+   */
+  getAllPositions(): StabilizerPosition[] {
+    return Array.from(this.positions.values());
+  }
+
   /**
    * Get all active positions (with backed shares > 0)
    */
@@ -341,21 +823,21 @@ export class PositionService {
     total: number;
     active: number;
     liquidatable: number;
-    averageCollateralization: number;
+    averageCollateralizationBps: bigint;
   } {
     const allPositions = Array.from(this.positions.values());
     const activePositions = allPositions.filter(p => p.backedShares > 0n);
     const liquidatablePositions = allPositions.filter(p => p.isLiquidatable);
     
     const avgCollateralization = activePositions.length > 0 
-      ? activePositions.reduce((sum, p) => sum + p.collateralizationRatio, 0) / activePositions.length
-      : 0;
+      ? activePositions.reduce((sum, p) => sum + p.collateralizationRatioBps, 0n) / BigInt(activePositions.length)
+      : 0n;
 
     return {
       total: allPositions.length,
       active: activePositions.length,
       liquidatable: liquidatablePositions.length,
-      averageCollateralization: avgCollateralization
+      averageCollateralizationBps: avgCollateralization
     };
   }
 }
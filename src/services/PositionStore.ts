@@ -0,0 +1,176 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Address } from 'viem';
+import { StabilizerPosition } from './PositionService.js';
+import { Logger } from '../utils/logger.js';
+
+export interface PositionState {
+  positions: StabilizerPosition[];
+  escrows: Record<string, Address>;   // NFT ID → position escrow, including positions no longer monitored
+  yieldFactor?: bigint;
+}
+
+export interface PositionSnapshot extends PositionState {
+  chainId: number;
+  stabilizerNftAddress: Address;
+  lastProcessedBlock: bigint;
+  savedAt: number;
+}
+
+export interface RatioHistoryEntry {
+  timestamp: number;
+  ratioBps: bigint;
+}
+
+// Snapshot as written to disk: bigints are stored as decimal strings
+interface StoredSnapshot {
+  version: number;
+  chainId: number;
+  stabilizerNftAddress: Address;
+  lastProcessedBlock: string;
+  savedAt: number;
+  yieldFactor?: string;
+  escrows: Record<string, Address>;
+  positions: Record<keyof StabilizerPosition, string | number | boolean>[];
+  ratioHistory: Record<string, { timestamp: number; ratioBps: string }[]>;
+}
+
+const STORE_VERSION = 1;
+
+// Ratio samples kept per position (24 hours at the default 5 minute update interval)
+const MAX_RATIO_HISTORY = 288;
+
+export class PositionStore {
+  private readonly storeDir: string;
+  private readonly chainId: number;
+  private readonly stabilizerNftAddress: Address;
+  private ratioHistory: Map<string, RatioHistoryEntry[]> = new Map();
+  private logger: Logger;
+
+  constructor(chainId: number, stabilizerNftAddress: Address, storeDir: string = './position-store', logger: Logger = new Logger()) {
+    this.chainId = chainId;
+    this.stabilizerNftAddress = stabilizerNftAddress;
+    this.storeDir = storeDir;
+    this.logger = logger.forService('PositionStore');
+  }
+
+  /**
+   * Load the last snapshot, or null when there is none for this chain and deployment
+   */
+  async load(): Promise<PositionSnapshot | null> {
+    let stored: StoredSnapshot;
+    try {
+      stored = JSON.parse(await fs.readFile(this.getStoreFilePath(), 'utf-8'));
+    } catch {
+      return null;
+    }
+
+    if (stored.version !== STORE_VERSION) {
+      this.logger.warn(`⚠️ Ignoring position store with version ${stored.version} (expected ${STORE_VERSION})`);
+      return null;
+    }
+    if (stored.stabilizerNftAddress.toLowerCase() !== this.stabilizerNftAddress.toLowerCase()) {
+      this.logger.warn('⚠️ Ignoring position store for another Stabilizer NFT deployment', { stabilizerNftAddress: stored.stabilizerNftAddress });
+      return null;
+    }
+
+    this.ratioHistory = new Map(
+      Object.entries(stored.ratioHistory).map(([nftId, entries]) => [
+        nftId,
+        entries.map(entry => ({ timestamp: entry.timestamp, ratioBps: BigInt(entry.ratioBps) }))
+      ])
+    );
+
+    return {
+      chainId: stored.chainId,
+      stabilizerNftAddress: stored.stabilizerNftAddress,
+      lastProcessedBlock: BigInt(stored.lastProcessedBlock),
+      savedAt: stored.savedAt,
+      ...(stored.yieldFactor !== undefined && { yieldFactor: BigInt(stored.yieldFactor) }),
+      escrows: stored.escrows,
+      positions: stored.positions.map(position => ({
+        nftId: BigInt(position.nftId as string),
+        owner: position.owner as Address,
+        positionEscrowAddress: position.positionEscrowAddress as Address,
+        collateralAmount: BigInt(position.collateralAmount as string),
+        backedShares: BigInt(position.backedShares as string),
+        uspdDebt: BigInt(position.uspdDebt as string),
+        collateralizationRatioBps: BigInt(position.collateralizationRatioBps as string),
+        isLiquidatable: position.isLiquidatable as boolean,
+        liquidationThresholdBps: BigInt(position.liquidationThresholdBps as string),
+        // Derived, and recomputed on restore; absent from stores written before it existed
+        liquidationPriceWad: BigInt((position.liquidationPriceWad as string | undefined) ?? '0'),
+        lastUpdated: position.lastUpdated as number
+      }))
+    };
+  }
+
+  /**
+   * Write a snapshot of the position state; written to a temporary file first so a crash
+   * mid-write never leaves a truncated store behind
+   */
+  async save(state: PositionState, lastProcessedBlock: bigint): Promise<void> {
+    const stored: StoredSnapshot = {
+      version: STORE_VERSION,
+      chainId: this.chainId,
+      stabilizerNftAddress: this.stabilizerNftAddress,
+      lastProcessedBlock: lastProcessedBlock.toString(),
+      savedAt: Date.now(),
+      ...(state.yieldFactor !== undefined && { yieldFactor: state.yieldFactor.toString() }),
+      escrows: state.escrows,
+      positions: state.positions.map(position => ({
+        ...position,
+        nftId: position.nftId.toString(),
+        collateralAmount: position.collateralAmount.toString(),
+        backedShares: position.backedShares.toString(),
+        uspdDebt: position.uspdDebt.toString(),
+        collateralizationRatioBps: position.collateralizationRatioBps.toString(),
+        liquidationThresholdBps: position.liquidationThresholdBps.toString(),
+        liquidationPriceWad: position.liquidationPriceWad.toString()
+      })),
+      ratioHistory: Object.fromEntries(
+        Array.from(this.ratioHistory, ([nftId, entries]) => [
+          nftId,
+          entries.map(entry => ({ timestamp: entry.timestamp, ratioBps: entry.ratioBps.toString() }))
+        ])
+      )
+    };
+
+    await fs.mkdir(this.storeDir, { recursive: true });
+    const storeFile = this.getStoreFilePath();
+    const tempFile = `${storeFile}.tmp`;
+    await fs.writeFile(tempFile, JSON.stringify(stored));
+    await fs.rename(tempFile, storeFile);
+  }
+
+  /**
+   * Append the current ratio of each active position to its history
+   */
+  recordRatios(positions: StabilizerPosition[]): void {
+    const timestamp = Date.now();
+    for (const position of positions) {
+      if (position.backedShares === 0n) {
+        continue;
+      }
+
+      const key = position.nftId.toString();
+      const history = this.ratioHistory.get(key) ?? [];
+      history.push({ timestamp, ratioBps: position.collateralizationRatioBps });
+      if (history.length > MAX_RATIO_HISTORY) {
+        history.splice(0, history.length - MAX_RATIO_HISTORY);
+      }
+      this.ratioHistory.set(key, history);
+    }
+  }
+
+  /**
+   * Get the recorded ratios of a position, oldest first
+   */
+  getRatioHistory(nftId: bigint): RatioHistoryEntry[] {
+    return this.ratioHistory.get(nftId.toString()) ?? [];
+  }
+
+  private getStoreFilePath(): string {
+    return path.join(this.storeDir, `positions-${this.chainId}.json`);
+  }
+}
@@ -0,0 +1,131 @@
+import { PublicClient, Address, Hex, encodePacked, keccak256, recoverMessageAddress } from 'viem';
+import { PriceData, PriceAttestationQuery } from './PriceService.js';
+import { Logger } from '../utils/logger.js';
+
+const ORACLE_ROLE_ABI = [
+  {
+    name: 'SIGNER_ROLE',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'bytes32' }]
+  },
+  {
+    name: 'hasRole',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'role', type: 'bytes32' },
+      { name: 'account', type: 'address' }
+    ],
+    outputs: [{ type: 'bool' }]
+  }
+] as const;
+
+// Signer roles can be revoked; re-check a known signer after this long
+const SIGNER_CACHE_TTL_MS = 10 * 60 * 1000;
+
+// Allowed clock skew for attestations dated in the future
+const MAX_FUTURE_SKEW_MS = 5000;
+
+/**
+ * An authentic-looking attestation that is older than the age limit, usually a lagging price API
+ */
+export class StaleAttestationError extends Error {}
+
+/**
+ * Verifies signed price attestations the way the USPD oracle contract does
+ *
+ * The oracle hashes abi.encodePacked(price, decimals, dataTimestamp, assetPair), signs the
+ * EIP-191 prefixed hash, and accepts it if the recovered address holds SIGNER_ROLE on the oracle of
+ * the chain the bot runs on. The signed message carries no chain ID, so an attestation for another
+ * chain is only rejected if that chain's signers hold no role here; deployments are assumed to use
+ * distinct signers. Attestations older than the last accepted one are rejected as replays.
+ */
+export class PriceAttestationVerifier {
+  private publicClient: PublicClient;
+  private oracleAddress: Address;
+  private maxAgeMs: number;
+  private signerRole?: Hex;
+  private signers: Map<Address, { authorized: boolean; checkedAt: number }> = new Map();
+  private lastDataTimestamp = 0;
+  private logger: Logger;
+
+  constructor(publicClient: PublicClient, oracleAddress: Address, maxAgeMs: number = 60000, logger: Logger = new Logger()) {
+    this.publicClient = publicClient;
+    this.oracleAddress = oracleAddress;
+    this.maxAgeMs = maxAgeMs;
+    this.logger = logger.forService('PriceAttestationVerifier');
+  }
+
+  /**
+   * Throw unless the attestation is authentic, fresh and not older than one already accepted
+   */
+  async verify(priceData: PriceData, query: PriceAttestationQuery): Promise<Address> {
+    const now = Date.now();
+    if (priceData.dataTimestamp > now + MAX_FUTURE_SKEW_MS) {
+      throw new Error(`Price attestation is dated ${priceData.dataTimestamp - now}ms in the future`);
+    }
+    if (now - priceData.dataTimestamp > this.maxAgeMs) {
+      throw new StaleAttestationError(`Price attestation is ${Math.round((now - priceData.dataTimestamp) / 1000)}s old (max ${this.maxAgeMs / 1000}s)`);
+    }
+    if (priceData.dataTimestamp < this.lastDataTimestamp) {
+      throw new Error(`Price attestation from ${priceData.dataTimestamp} is older than the last accepted one (${this.lastDataTimestamp}), possible replay`);
+    }
+
+    const signer = await this.recoverSigner(query);
+    if (!await this.isAuthorizedSigner(signer)) {
+      throw new Error(`Price attestation signed by ${signer}, which is not an authorized signer of oracle ${this.oracleAddress}`);
+    }
+
+    this.lastDataTimestamp = priceData.dataTimestamp;
+    return signer;
+  }
+
+  /**
+   * Rebuild the oracle's message hash and recover the address that signed it
+   */
+  private async recoverSigner(query: PriceAttestationQuery): Promise<Address> {
+    const messageHash = keccak256(encodePacked(
+      ['uint256', 'uint8', 'uint256', 'bytes32'],
+      [query.price, query.decimals, query.dataTimestamp, query.assetPair]
+    ));
+
+    try {
+      return await recoverMessageAddress({ message: { raw: messageHash }, signature: query.signature });
+    } catch (error) {
+      throw new Error(`Malformed price attestation signature: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async isAuthorizedSigner(signer: Address): Promise<boolean> {
+    const cached = this.signers.get(signer);
+    if (cached && Date.now() - cached.checkedAt < SIGNER_CACHE_TTL_MS) {
+      return cached.authorized;
+    }
+
+    if (!this.signerRole) {
+      this.signerRole = await this.publicClient.readContract({
+        address: this.oracleAddress,
+        abi: ORACLE_ROLE_ABI,
+        functionName: 'SIGNER_ROLE'
+      });
+    }
+
+    const authorized = await this.publicClient.readContract({
+      address: this.oracleAddress,
+      abi: ORACLE_ROLE_ABI,
+      functionName: 'hasRole',
+      args: [this.signerRole, signer]
+    });
+
+    if (!cached || cached.authorized !== authorized) {
+      this.logger[authorized ? 'info' : 'warn'](
+        `🔏 Price signer is ${authorized ? 'authorized' : 'NOT authorized'} by the oracle`,
+        { signer, oracle: this.oracleAddress }
+      );
+    }
+    this.signers.set(signer, { authorized, checkedAt: Date.now() });
+    return authorized;
+  }
+}
@@ -0,0 +1,97 @@
+import { abs, formatBps, toBps } from '../utils/decimal.js';
+import { Logger } from '../utils/logger.js';
+
+export interface PricePollSettings {
+  baseIntervalMs: number;      // Normal polling interval
+  burstIntervalMs: number;     // Interval while the market moves or positions are close to liquidation
+  calmIntervalMs: number;      // Longest interval reached when backing off in a calm market
+  burstMoveBps: number;        // Price move between ticks that starts burst mode
+  burstProximityBps: number;   // Distance of the closest liquidation price that starts burst mode
+  burstTicks: number;          // Ticks to stay in burst mode after the last trigger
+  calmTicks: number;           // Quiet ticks at the base interval before backing off
+}
+
+export type PricePollMode = 'burst' | 'normal' | 'calm';
+
+const DEFAULT_POLL_SETTINGS: PricePollSettings = {
+  baseIntervalMs: 30000,
+  burstIntervalMs: 3000,
+  calmIntervalMs: 60000,
+  burstMoveBps: 50,
+  burstProximityBps: 200,
+  burstTicks: 20,
+  calmTicks: 10
+};
+
+// Each quiet tick past calmTicks stretches the interval by half, up to calmIntervalMs
+const BACKOFF_FACTOR = 1.5;
+
+/**
+ * Chooses the delay before the next price tick from how the price and positions behave
+ */
+export class PricePollScheduler {
+  private settings: PricePollSettings;
+  private lastPriceWad?: bigint;
+  private burstTicksLeft = 0;
+  private quietTicks = 0;
+  private intervalMs: number;
+  private mode: PricePollMode = 'normal';
+  private logger: Logger;
+
+  constructor(settings: Partial<PricePollSettings> = {}, logger: Logger = new Logger()) {
+    this.settings = { ...DEFAULT_POLL_SETTINGS, ...settings };
+    this.intervalMs = this.settings.baseIntervalMs;
+    this.logger = logger.forService('PricePollScheduler');
+  }
+
+  /**
+   * Record a tick and return the delay until the next one
+   *
+   * @param priceWad Current ETH price, 18 decimals
+   * @param closestLiquidationBps Distance from the current price to the nearest liquidation price
+   */
+  nextInterval(priceWad: bigint, closestLiquidationBps?: bigint): number {
+    const moveBps = this.lastPriceWad !== undefined && this.lastPriceWad > 0n
+      ? toBps(abs(priceWad - this.lastPriceWad), this.lastPriceWad)
+      : 0n;
+    this.lastPriceWad = priceWad;
+
+    const bigMove = moveBps >= BigInt(this.settings.burstMoveBps);
+    const nearLiquidation = closestLiquidationBps !== undefined && closestLiquidationBps <= BigInt(this.settings.burstProximityBps);
+
+    if (bigMove || nearLiquidation) {
+      const reason = bigMove
+        ? `price moved ${formatBps(moveBps)}%`
+        : `a position is ${formatBps(closestLiquidationBps!)}% from liquidation`;
+      this.setMode('burst', reason);
+      this.burstTicksLeft = this.settings.burstTicks;
+      this.quietTicks = 0;
+      this.intervalMs = this.settings.burstIntervalMs;
+    } else if (this.burstTicksLeft > 0) {
+      this.burstTicksLeft--;
+      this.intervalMs = this.settings.burstIntervalMs;
+    } else if (++this.quietTicks <= this.settings.calmTicks) {
+      this.setMode('normal', 'market is quiet again');
+      this.intervalMs = this.settings.baseIntervalMs;
+    } else {
+      this.intervalMs = Math.min(Math.round(this.intervalMs * BACKOFF_FACTOR), this.settings.calmIntervalMs);
+      if (this.intervalMs > this.settings.baseIntervalMs) {
+        this.setMode('calm', `no significant move for ${this.quietTicks} ticks`);
+      }
+    }
+
+    return this.intervalMs;
+  }
+
+  getMode(): PricePollMode {
+    return this.mode;
+  }
+
+  private setMode(mode: PricePollMode, reason: string): void {
+    if (mode === this.mode) {
+      return;
+    }
+    this.mode = mode;
+    this.logger.info(`⏱️ Price polling ${mode} (${reason})`);
+  }
+}
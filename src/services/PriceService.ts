@@ -1,3 +1,10 @@
+import { Hex, isHex, keccak256, toHex } from 'viem';
+import { PriceSource, SourcePrice, UspdApiPriceSource } from './PriceSources.js';
+import { PriceAttestationVerifier, StaleAttestationError } from './PriceAttestationVerifier.js';
+import { NotificationService } from './NotificationService.js';
+import { WAD, Rounding, abs, compare, formatBps, formatDecimal, mulDiv, scaleDecimals, toBps } from '../utils/decimal.js';
+import { Logger } from '../utils/logger.js';
+
 export interface PriceData {
   price: string;
   dataTimestamp: number;
@@ -7,37 +14,214 @@ export interface PriceData {
   decimals: number;
 }
 
+/**
+ * Price attestation in the shape expected by the USPD contracts
+ */
+export interface PriceAttestationQuery {
+  price: bigint;
+  decimals: number;
+  dataTimestamp: bigint;
+  assetPair: Hex;
+  signature: Hex;
+}
+
+/**
+ * Signed USPD price compared with the median of the reference price sources
+ */
+export interface PriceDeviationCheck {
+  signedPriceWad: bigint;
+  referencePriceWad?: bigint;   // Median of the reference sources that answered
+  deviationBps?: bigint;
+  sources: SourcePrice[];       // Reference sources that answered
+  failedSources: string[];
+  withinBand: boolean;          // False when the deviation exceeds the band or could not be measured
+  verified: boolean;            // Whether any reference source answered to measure it
+}
+
 export class PriceService {
-  private readonly priceApiUrl = 'https://uspd.io/api/v1/price/eth-usd';
+  private uspdSource: UspdApiPriceSource;
+  private referenceSources: PriceSource[];
+  private maxDeviationBps: bigint;
+  private attestationVerifier?: PriceAttestationVerifier;
+  private notifier?: NotificationService;
+  private logger: Logger;
+
+  constructor(
+    uspdSource: UspdApiPriceSource = new UspdApiPriceSource(),
+    referenceSources: PriceSource[] = [],
+    maxDeviationBps: number = 200,
+    logger: Logger = new Logger()
+  ) {
+    this.uspdSource = uspdSource;
+    this.referenceSources = referenceSources;
+    this.maxDeviationBps = BigInt(maxDeviationBps);
+    this.logger = logger.forService('PriceService');
+  }
+
+  /**
+   * Add a source to cross-check the signed price against
+   */
+  addReferenceSource(source: PriceSource): void {
+    this.referenceSources.push(source);
+  }
+
+  /**
+   * Verify every fetched attestation before it is returned to callers
+   */
+  setAttestationVerifier(verifier: PriceAttestationVerifier): void {
+    this.attestationVerifier = verifier;
+  }
+
+  /**
+   * Send price alerts (unavailable, rejected or deviating prices) through the notifier
+   */
+  setNotifier(notifier: NotificationService): void {
+    this.notifier = notifier;
+  }
 
   async getCurrentEthPrice(): Promise<PriceData> {
+    let priceData: PriceData;
     try {
-      const response = await fetch(this.priceApiUrl);
-      if (!response.ok) {
-        throw new Error(`Price API request failed: ${response.status} ${response.statusText}`);
-      }
-      
-      const priceData: PriceData = await response.json();
-      
-      // Validate the response structure
-      if (!priceData.price || !priceData.signature || !priceData.decimals) {
-        throw new Error('Invalid price data structure received from API');
-      }
-      
-      return priceData;
+      priceData = await this.uspdSource.fetchSignedPrice();
     } catch (error) {
-      console.error('❌ Failed to fetch ETH price:', error);
+      this.logger.error('❌ Failed to fetch ETH price', { error });
+      this.notifier?.notify({
+        type: 'price.unavailable',
+        severity: 'error',
+        title: 'Signed ETH price unavailable',
+        message: error instanceof Error ? error.message : String(error)
+      });
       throw error;
     }
+
+    try {
+      await this.attestationVerifier?.verify(priceData, this.toPriceQuery(priceData));
+    } catch (error) {
+      if (error instanceof StaleAttestationError) {
+        this.logger.warn('⚠️ Price data is stale', { dataTimestamp: priceData.dataTimestamp });
+        this.notifier?.notify({
+          type: 'price.stale',
+          severity: 'warning',
+          title: 'Signed ETH price is stale',
+          message: error.message
+        });
+        throw error;
+      }
+      this.logger.error('❌ Rejected ETH price attestation', { error });
+      this.notifier?.notify({
+        type: 'price.attestation_rejected',
+        severity: 'critical',
+        title: 'Signed ETH price attestation rejected',
+        message: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
+    }
+
+    return priceData;
+  }
+
+  /**
+   * Compare the signed price with the median of the reference price sources
+   *
+   * The signed price is left out of the median so it cannot pull the reference towards itself.
+   * Sources that fail are skipped; if none answers, the check is unverified and not within band.
+   */
+  async checkPriceDeviation(priceData: PriceData): Promise<PriceDeviationCheck> {
+    const signed = this.uspdSource.toSourcePrice(priceData);
+    const results = await Promise.allSettled(this.referenceSources.map(source => source.getPrice()));
+
+    const sources: SourcePrice[] = [];
+    const failedSources: string[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        sources.push(result.value);
+      } else {
+        const source = this.referenceSources[index]!;
+        failedSources.push(source.name);
+        this.logger.warn('⚠️ Price source failed', { source: source.name, error: result.reason });
+      }
+    });
+
+    if (sources.length === 0) {
+      this.notifier?.notify({
+        type: 'price.unverified',
+        severity: 'warning',
+        title: 'Signed ETH price could not be cross-checked',
+        message: `No reference price source answered (failed: ${failedSources.join(', ') || 'none configured'})`
+      });
+      return { signedPriceWad: signed.priceWad, sources, failedSources, withinBand: false, verified: false };
+    }
+
+    const referencePriceWad = this.median(sources.map(source => source.priceWad));
+    const deviationBps = toBps(abs(signed.priceWad - referencePriceWad), referencePriceWad);
+    if (deviationBps > this.maxDeviationBps) {
+      this.notifier?.notify({
+        type: 'price.deviation',
+        severity: 'warning',
+        title: 'Signed ETH price deviates from reference sources',
+        message: `Signed $${formatDecimal(signed.priceWad, 18, 2)} is ${formatBps(deviationBps)}% off the median $${formatDecimal(referencePriceWad, 18, 2)} (${sources.map(source => source.source).join(', ')})`
+      });
+    }
+
+    return {
+      signedPriceWad: signed.priceWad,
+      referencePriceWad,
+      deviationBps,
+      sources,
+      failedSources,
+      withinBand: deviationBps <= this.maxDeviationBps,
+      verified: true
+    };
+  }
+
+  /**
+   * Get the USD price of one ETH as an 18-decimal fixed-point value
+   */
+  priceToWad(priceData: PriceData): bigint {
+    return scaleDecimals(BigInt(priceData.price), priceData.decimals, 18);
+  }
+
+  /**
+   * Format the price in dollars with two decimals
+   */
+  formatPrice(priceData: PriceData): string {
+    return formatDecimal(BigInt(priceData.price), priceData.decimals, 2);
+  }
+
+  /**
+   * Convert a USD amount (18 decimals, e.g. USPD) to ETH at the given price
+   */
+  usdToEth(usdAmount: bigint, priceData: PriceData, rounding: Rounding = 'down'): bigint {
+    return mulDiv(usdAmount, WAD, this.priceToWad(priceData), rounding);
+  }
+
+  /**
+   * Convert API price data into the attestation query passed to contract calls
+   */
+  toPriceQuery(priceData: PriceData): PriceAttestationQuery {
+    // The asset pair is a bytes32 on-chain; hash it if the API returned the plain pair name
+    const assetPair = isHex(priceData.assetPair, { strict: true }) && priceData.assetPair.length === 66
+      ? priceData.assetPair
+      : keccak256(toHex(priceData.assetPair));
+
+    return {
+      price: BigInt(priceData.price),
+      decimals: priceData.decimals,
+      dataTimestamp: BigInt(priceData.dataTimestamp),
+      assetPair,
+      signature: priceData.signature as Hex
+    };
   }
 
   /**
-   * Convert price string to number (accounting for decimals)
+   * Median of a list of prices; the mean of the two middle values for an even count
    */
-  priceToNumber(priceData: PriceData): number {
-    const priceWei = BigInt(priceData.price);
-    const divisor = BigInt(10 ** priceData.decimals);
-    return Number(priceWei) / Number(divisor);
+  private median(prices: bigint[]): bigint {
+    const sorted = [...prices].sort(compare);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 1
+      ? sorted[middle]!
+      : (sorted[middle - 1]! + sorted[middle]!) / 2n;
   }
 
   /**
@@ -0,0 +1,250 @@
+import { PublicClient, Address } from 'viem';
+import { PriceData } from './PriceService.js';
+import { mulDiv, pow10, scaleDecimals } from '../utils/decimal.js';
+
+/**
+ * An ETH/USD price reported by a single source
+ */
+export interface SourcePrice {
+  source: string;
+  priceWad: bigint;      // USD per ETH, 18 decimals
+  timestamp: number;     // When the source last updated, in milliseconds
+}
+
+/**
+ * A source of ETH/USD prices used to cross-check the signed USPD price
+ */
+export interface PriceSource {
+  readonly name: string;
+  getPrice(): Promise<SourcePrice>;
+}
+
+/**
+ * The signed price from the USPD API, the only price the contracts accept
+ */
+export class UspdApiPriceSource implements PriceSource {
+  readonly name = 'uspd-api';
+  private readonly priceApiUrl: string;
+
+  constructor(priceApiUrl: string = 'https://uspd.io/api/v1/price/eth-usd') {
+    this.priceApiUrl = priceApiUrl;
+  }
+
+  async getPrice(): Promise<SourcePrice> {
+    return this.toSourcePrice(await this.fetchSignedPrice());
+  }
+
+  /**
+   * Fetch the signed price attestation
+   */
+  async fetchSignedPrice(): Promise<PriceData> {
+    const response = await fetch(this.priceApiUrl);
+    if (!response.ok) {
+      throw new Error(`Price API request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const priceData = await response.json() as PriceData;
+
+    // Validate the response structure
+    if (!priceData.price || !priceData.signature || !priceData.decimals) {
+      throw new Error('Invalid price data structure received from API');
+    }
+
+    return priceData;
+  }
+
+  toSourcePrice(priceData: PriceData): SourcePrice {
+    return {
+      source: this.name,
+      priceWad: scaleDecimals(BigInt(priceData.price), priceData.decimals, 18),
+      timestamp: priceData.dataTimestamp
+    };
+  }
+}
+
+const CHAINLINK_AGGREGATOR_ABI = [
+  {
+    name: 'latestRoundData',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'roundId', type: 'uint80' },
+      { name: 'answer', type: 'int256' },
+      { name: 'startedAt', type: 'uint256' },
+      { name: 'updatedAt', type: 'uint256' },
+      { name: 'answeredInRound', type: 'uint80' }
+    ]
+  },
+  {
+    name: 'decimals',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint8' }]
+  }
+] as const;
+
+/**
+ * The Chainlink ETH/USD aggregator configured for the USPD deployment
+ */
+export class ChainlinkPriceSource implements PriceSource {
+  readonly name = 'chainlink';
+  private publicClient: PublicClient;
+  private aggregatorAddress: Address;
+  private maxAgeSeconds: number;
+  private decimals?: number;
+
+  // ETH/USD updates at least hourly; allow some slack before calling the answer stale
+  constructor(publicClient: PublicClient, aggregatorAddress: Address, maxAgeSeconds: number = 3900) {
+    this.publicClient = publicClient;
+    this.aggregatorAddress = aggregatorAddress;
+    this.maxAgeSeconds = maxAgeSeconds;
+  }
+
+  async getPrice(): Promise<SourcePrice> {
+    if (this.decimals === undefined) {
+      this.decimals = await this.publicClient.readContract({
+        address: this.aggregatorAddress,
+        abi: CHAINLINK_AGGREGATOR_ABI,
+        functionName: 'decimals'
+      });
+    }
+
+    const [, answer, , updatedAt] = await this.publicClient.readContract({
+      address: this.aggregatorAddress,
+      abi: CHAINLINK_AGGREGATOR_ABI,
+      functionName: 'latestRoundData'
+    });
+
+    if (answer <= 0n) {
+      throw new Error(`Chainlink returned a non-positive answer: ${answer}`);
+    }
+    const ageSeconds = Math.floor(Date.now() / 1000) - Number(updatedAt);
+    if (ageSeconds > this.maxAgeSeconds) {
+      throw new Error(`Chainlink answer is ${ageSeconds}s old`);
+    }
+
+    return {
+      source: this.name,
+      priceWad: scaleDecimals(answer, this.decimals, 18),
+      timestamp: Number(updatedAt) * 1000
+    };
+  }
+}
+
+const UNISWAP_ROUTER_ABI = [
+  {
+    name: 'factory',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'address' }]
+  },
+  {
+    name: 'WETH9',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'address' }]
+  }
+] as const;
+
+const UNISWAP_FACTORY_ABI = [
+  {
+    name: 'getPool',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'tokenA', type: 'address' },
+      { name: 'tokenB', type: 'address' },
+      { name: 'fee', type: 'uint24' }
+    ],
+    outputs: [{ type: 'address' }]
+  }
+] as const;
+
+const UNISWAP_POOL_ABI = [
+  {
+    name: 'slot0',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [
+      { name: 'sqrtPriceX96', type: 'uint160' },
+      { name: 'tick', type: 'int24' },
+      { name: 'observationIndex', type: 'uint16' },
+      { name: 'observationCardinality', type: 'uint16' },
+      { name: 'observationCardinalityNext', type: 'uint16' },
+      { name: 'feeProtocol', type: 'uint8' },
+      { name: 'unlocked', type: 'bool' }
+    ]
+  }
+] as const;
+
+const Q192 = 2n ** 192n;
+const USDC_DECIMALS = 6;
+
+/**
+ * Spot price of the Uniswap V3 WETH/USDC pool behind the configured router
+ */
+export class UniswapPriceSource implements PriceSource {
+  readonly name = 'uniswap';
+  private publicClient: PublicClient;
+  private routerAddress: Address;
+  private usdcAddress: Address;
+  private poolFee: number;
+  private pool?: { address: Address; wethIsToken0: boolean };
+
+  constructor(publicClient: PublicClient, routerAddress: Address, usdcAddress: Address, poolFee: number = 500) {
+    this.publicClient = publicClient;
+    this.routerAddress = routerAddress;
+    this.usdcAddress = usdcAddress;
+    this.poolFee = poolFee;
+  }
+
+  async getPrice(): Promise<SourcePrice> {
+    const pool = await this.loadPool();
+    const [sqrtPriceX96] = await this.publicClient.readContract({
+      address: pool.address,
+      abi: UNISWAP_POOL_ABI,
+      functionName: 'slot0'
+    });
+
+    // sqrtPriceX96² / 2^192 is the raw token1/token0 price; convert it to USDC units per 1 ETH
+    const priceX192 = sqrtPriceX96 * sqrtPriceX96;
+    const usdcPerEth = pool.wethIsToken0
+      ? mulDiv(priceX192, pow10(18), Q192)
+      : mulDiv(Q192, pow10(18), priceX192);
+
+    return {
+      source: this.name,
+      priceWad: scaleDecimals(usdcPerEth, USDC_DECIMALS, 18),
+      timestamp: Date.now()
+    };
+  }
+
+  private async loadPool(): Promise<{ address: Address; wethIsToken0: boolean }> {
+    if (this.pool) {
+      return this.pool;
+    }
+
+    const [factory, weth] = await Promise.all([
+      this.publicClient.readContract({ address: this.routerAddress, abi: UNISWAP_ROUTER_ABI, functionName: 'factory' }),
+      this.publicClient.readContract({ address: this.routerAddress, abi: UNISWAP_ROUTER_ABI, functionName: 'WETH9' })
+    ]);
+
+    const address = await this.publicClient.readContract({
+      address: factory,
+      abi: UNISWAP_FACTORY_ABI,
+      functionName: 'getPool',
+      args: [weth, this.usdcAddress, this.poolFee]
+    });
+    if (address === '0x0000000000000000000000000000000000000000') {
+      throw new Error(`No Uniswap WETH/USDC pool with fee ${this.poolFee}`);
+    }
+
+    this.pool = { address, wethIsToken0: weth.toLowerCase() < this.usdcAddress.toLowerCase() };
+    return this.pool;
+  }
+}
@@ -0,0 +1,263 @@
+import { PublicClient, Address, erc20Abi, erc721Abi, isAddressEqual } from 'viem';
+import { GasService } from './GasService.js';
+import { PriceData, PriceService } from './PriceService.js';
+import { StabilizerPosition, liquidatorThresholdBps } from './PositionService.js';
+import { BPS, applyBps, min, mulDiv, toBps } from '../utils/decimal.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Every amount that goes into the expected profit of a liquidation (all ETH amounts in wei)
+ */
+export interface LiquidationProfitBreakdown {
+  nftId: bigint;
+  ethPrice: bigint;               // USD per ETH, 18 decimals
+  debtUspd: bigint;
+  debtValueEth: bigint;           // What the USPD we burn is worth in ETH
+  payoutPercent: bigint;          // Share of the debt value paid out in stETH (e.g. 105)
+  liquidatorNftId: bigint;        // NFT whose tier we liquidate with, 0 without one
+  liquidationThresholdBps: bigint; // Our tier's threshold for the liquidator NFT
+  withinTier: boolean;            // The position's ratio is under that threshold, so the contract pays out
+  targetPayoutStEth: bigint;
+  stEthFromEscrow: bigint;        // Released by the position escrow
+  stEthFromInsurance: bigint;     // Topped up by the insurance escrow when the escrow runs short
+  stEthReceived: bigint;
+  stEthDiscountBps: bigint;       // Haircut when converting stETH to ETH
+  stEthValueEth: bigint;
+  grossProfitEth: bigint;
+  gasUnits: bigint;
+  gasEstimated: boolean;          // False when the fallback gas limit was used
+  maxFeePerGas: bigint;
+  gasCostEth: bigint;
+  acquisitionCostEth: bigint;
+  netProfitEth: bigint;
+}
+
+interface ProtocolLiquidationParams {
+  payoutPercent: bigint;
+  liquidatorNftId: bigint;        // 0 when the configured NFT is not ours
+  thresholdBps: bigint;
+  loadedAt: number;
+}
+
+// Curve stETH/ETH pool used to price the stETH → ETH conversion on mainnet
+const CURVE_STETH_POOL: Record<number, Address> = {
+  1: '0xDC24316b9AE028F1497c275EB9192a3Ea0f67022'
+};
+
+const CURVE_GET_DY_ABI = [
+  {
+    name: 'get_dy',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'i', type: 'int128' },
+      { name: 'j', type: 'int128' },
+      { name: 'dx', type: 'uint256' }
+    ],
+    outputs: [{ type: 'uint256' }]
+  }
+] as const;
+
+// Public state variable of the StabilizerNFT
+const LIQUIDATOR_PAYOUT_ABI = [
+  {
+    name: 'liquidationLiquidatorPayoutPercent',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'uint256' }]
+  }
+] as const;
+
+// Protocol parameters change rarely; re-read them every 10 minutes
+const PARAMS_TTL_MS = 10 * 60 * 1000;
+
+export class ProfitService {
+  private publicClient: PublicClient;
+  private gasService: GasService;
+  private priceService: PriceService;
+  private stabilizerNftAddress: Address;
+  private stEthAddress: Address;
+  private insuranceEscrowAddress: Address;
+  private liquidatorAddress: Address;
+  private liquidatorNftId: bigint;
+  private fallbackBonusPercent: bigint;
+  private fallbackStEthDiscountBps: bigint;
+  private params?: ProtocolLiquidationParams;
+  private logger: Logger;
+
+  constructor(
+    publicClient: PublicClient,
+    gasService: GasService,
+    priceService: PriceService,
+    stabilizerNftAddress: Address,
+    stEthAddress: Address,
+    insuranceEscrowAddress: Address,
+    liquidatorAddress: Address,
+    liquidatorNftId: bigint = 0n,
+    fallbackBonusPercent: number = 5,
+    fallbackStEthDiscountBps: number = 10,
+    logger: Logger = new Logger()
+  ) {
+    this.publicClient = publicClient;
+    this.gasService = gasService;
+    this.priceService = priceService;
+    this.stabilizerNftAddress = stabilizerNftAddress;
+    this.stEthAddress = stEthAddress;
+    this.insuranceEscrowAddress = insuranceEscrowAddress;
+    this.liquidatorAddress = liquidatorAddress;
+    this.liquidatorNftId = liquidatorNftId;
+    this.fallbackBonusPercent = BigInt(fallbackBonusPercent);
+    this.fallbackStEthDiscountBps = BigInt(fallbackStEthDiscountBps);
+    this.logger = logger.forService('ProfitService');
+  }
+
+  /**
+   * Compute the expected profit of liquidating a position from on-chain state
+   */
+  async calculate(
+    position: StabilizerPosition,
+    priceData: PriceData,
+    gas: { units: bigint; estimated: boolean },
+    acquisitionCostEth: bigint = 0n
+  ): Promise<LiquidationProfitBreakdown> {
+    const params = await this.loadParams();
+
+    const ethPrice = this.priceService.priceToWad(priceData);
+    const debtUspd = position.uspdDebt;
+    const debtValueEth = this.priceService.usdToEth(debtUspd, priceData);
+
+    // The liquidator is paid a fixed share of the liquidated debt value in stETH, first from the
+    // position escrow and then from the insurance escrow, but only below its tier's threshold
+    const withinTier = position.collateralizationRatioBps < params.thresholdBps;
+    const targetPayoutStEth = withinTier ? mulDiv(debtValueEth, params.payoutPercent, 100n) : 0n;
+    const [escrowBalance, insuranceBalance, fees] = await Promise.all([
+      this.readStEthBalance(position.positionEscrowAddress),
+      this.readStEthBalance(this.insuranceEscrowAddress),
+      this.gasService.estimateFees()
+    ]);
+
+    const stEthFromEscrow = min(targetPayoutStEth, escrowBalance);
+    const stEthFromInsurance = min(targetPayoutStEth - stEthFromEscrow, insuranceBalance);
+    const stEthReceived = stEthFromEscrow + stEthFromInsurance;
+
+    const stEthValueEth = await this.stEthToEth(stEthReceived);
+    const stEthDiscountBps = stEthReceived > 0n
+      ? toBps(stEthReceived - stEthValueEth, stEthReceived)
+      : this.fallbackStEthDiscountBps;
+
+    const grossProfitEth = stEthValueEth - debtValueEth;
+    const gasCostEth = gas.units * fees.maxFeePerGas;
+    const netProfitEth = grossProfitEth - gasCostEth - acquisitionCostEth;
+
+    return {
+      nftId: position.nftId,
+      ethPrice,
+      debtUspd,
+      debtValueEth,
+      payoutPercent: params.payoutPercent,
+      liquidatorNftId: params.liquidatorNftId,
+      liquidationThresholdBps: params.thresholdBps,
+      withinTier,
+      targetPayoutStEth,
+      stEthFromEscrow,
+      stEthFromInsurance,
+      stEthReceived,
+      stEthDiscountBps,
+      stEthValueEth,
+      grossProfitEth,
+      gasUnits: gas.units,
+      gasEstimated: gas.estimated,
+      maxFeePerGas: fees.maxFeePerGas,
+      gasCostEth,
+      acquisitionCostEth,
+      netProfitEth
+    };
+  }
+
+  /**
+   * Read the liquidation payout from the stabilizer, falling back to LIQUIDATION_BONUS_PERCENT,
+   * and resolve the tier of our liquidator NFT
+   */
+  private async loadParams(): Promise<ProtocolLiquidationParams> {
+    if (this.params && Date.now() - this.params.loadedAt < PARAMS_TTL_MS) {
+      return this.params;
+    }
+
+    let payoutPercent = 100n + this.fallbackBonusPercent;
+    try {
+      payoutPercent = await this.publicClient.readContract({
+        address: this.stabilizerNftAddress,
+        abi: LIQUIDATOR_PAYOUT_ABI,
+        functionName: 'liquidationLiquidatorPayoutPercent'
+      });
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not read liquidation payout from stabilizer, assuming ${payoutPercent}%`, { error });
+    }
+
+    const liquidatorNftId = await this.resolveLiquidatorNft();
+    this.params = { payoutPercent, liquidatorNftId, thresholdBps: liquidatorThresholdBps(liquidatorNftId), loadedAt: Date.now() };
+    return this.params;
+  }
+
+  /**
+   * The configured liquidator NFT if our wallet owns it; the contract rejects liquidations with an
+   * NFT held by someone else, leaving the tier without an NFT
+   */
+  private async resolveLiquidatorNft(): Promise<bigint> {
+    if (this.liquidatorNftId === 0n) {
+      return 0n;
+    }
+
+    try {
+      const owner = await this.publicClient.readContract({
+        address: this.stabilizerNftAddress,
+        abi: erc721Abi,
+        functionName: 'ownerOf',
+        args: [this.liquidatorNftId]
+      });
+      if (isAddressEqual(owner, this.liquidatorAddress)) {
+        return this.liquidatorNftId;
+      }
+      this.logger.warn(`⚠️ Liquidator NFT ${this.liquidatorNftId} is owned by ${owner}, estimating without its tier`);
+    } catch (error) {
+      this.logger.warn(`⚠️ Could not read the owner of liquidator NFT ${this.liquidatorNftId}, estimating without its tier`, { error });
+    }
+    return 0n;
+  }
+
+  /**
+   * Value stETH in ETH via the Curve pool, or the configured discount where there is none
+   */
+  private async stEthToEth(amount: bigint): Promise<bigint> {
+    if (amount === 0n) {
+      return 0n;
+    }
+
+    const pool = CURVE_STETH_POOL[this.publicClient.chain?.id ?? 1];
+    if (pool) {
+      try {
+        // Coin 1 is stETH, coin 0 is ETH
+        return await this.publicClient.readContract({
+          address: pool,
+          abi: CURVE_GET_DY_ABI,
+          functionName: 'get_dy',
+          args: [1n, 0n, amount]
+        });
+      } catch (error) {
+        this.logger.warn('⚠️ Curve stETH quote failed, using configured discount', { error });
+      }
+    }
+
+    return applyBps(amount, BPS - this.fallbackStEthDiscountBps);
+  }
+
+  private async readStEthBalance(account: Address): Promise<bigint> {
+    return this.publicClient.readContract({
+      address: this.stEthAddress,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [account]
+    });
+  }
+}
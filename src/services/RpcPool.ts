@@ -0,0 +1,459 @@
+import {
+  createTransport,
+  http,
+  webSocket,
+  Transport,
+  EIP1193Parameters,
+  EIP1193RequestFn,
+  Hex,
+  keccak256,
+  WebSocketTransport,
+  HttpRequestError,
+  TimeoutError,
+  WebSocketRequestError,
+  SocketClosedError,
+  ExecutionRevertedError,
+  InternalRpcError,
+  LimitExceededRpcError,
+  MethodNotFoundRpcError,
+  MethodNotSupportedRpcError,
+  ResourceUnavailableRpcError
+} from 'viem';
+import { Logger } from '../utils/logger.js';
+
+export type RpcPoolKind = 'http' | 'websocket';
+
+export interface RpcPoolSettings {
+  requestTimeoutMs: number;       // Per-endpoint timeout before a request fails over to the next endpoint
+  healthCheckIntervalMs: number;  // How often every endpoint's block number and latency are probed
+  maxBlockLag: number;            // Blocks an endpoint may trail the most recent one before it is skipped
+  broadcastFanout: boolean;       // Send raw transactions to every healthy endpoint instead of the best one
+}
+
+export const DEFAULT_RPC_POOL_SETTINGS: RpcPoolSettings = {
+  requestTimeoutMs: 10000,
+  healthCheckIntervalMs: 15000,
+  maxBlockLag: 3,
+  broadcastFanout: false
+};
+
+/**
+ * Health of one endpoint, as reported in the metrics
+ */
+export interface RpcEndpointStatus {
+  endpoint: string;      // Host only, as URL paths often carry API keys
+  transport: RpcPoolKind;
+  healthy: boolean;
+  latencyMs?: number;
+  errorRate: number;
+  blockLag?: number;
+}
+
+// Each sample moves the latency and error rate averages by this fraction
+const EWMA_WEIGHT = 0.2;
+
+// An endpoint failing this many requests in a row is skipped for the cooldown
+const MAX_CONSECUTIVE_FAILURES = 3;
+const COOLDOWN_MS = 30 * 1000;
+
+// Above this error rate an endpoint only gets requests when no other endpoint is healthy
+const MAX_ERROR_RATE = 0.5;
+
+type WebSocketValue = NonNullable<ReturnType<WebSocketTransport>['value']>;
+type SubscribeArgs = Parameters<WebSocketValue['subscribe']>[0];
+
+interface Endpoint {
+  name: string;
+  instance: ReturnType<Transport>;
+  healthy: boolean;
+  latencyMs?: number;
+  errorRate: number;
+  consecutiveFailures: number;
+  cooldownUntil: number;
+  blockNumber?: bigint;
+}
+
+interface Subscription {
+  args: SubscribeArgs;
+  endpoint?: Endpoint;
+  unsubscribe: () => Promise<unknown>;
+  moving: boolean;
+  closed: boolean;
+}
+
+/**
+ * Routes JSON-RPC requests across several endpoints of one chain
+ *
+ * Every request goes to the best healthy endpoint, ranked by latency weighted with the recent error
+ * rate, and fails over to the next one when the endpoint itself fails (timeout, HTTP error, rate
+ * limit, closed socket). Errors the node answered with, such as reverts, are returned as they are,
+ * since any other endpoint would answer the same. A background probe keeps every endpoint's block
+ * number fresh so that endpoints lagging behind the chain head are skipped.
+ *
+ * WebSocket pools also carry subscriptions: they are opened on the best endpoint and moved to
+ * another one when their endpoint fails or falls behind. Events emitted during the move can be
+ * missed; the periodic position update catches up on them.
+ */
+export class RpcPool {
+  private kind: RpcPoolKind;
+  private settings: RpcPoolSettings;
+  private endpoints: Endpoint[];
+  private subscriptions: Set<Subscription> = new Set();
+  private healthCheckTimer?: NodeJS.Timeout;
+  private logger: Logger;
+
+  constructor(kind: RpcPoolKind, urls: string[], settings: Partial<RpcPoolSettings> = {}, logger: Logger = new Logger()) {
+    if (urls.length === 0) {
+      throw new Error(`RPC pool needs at least one ${kind} endpoint`);
+    }
+
+    this.kind = kind;
+    this.settings = { ...DEFAULT_RPC_POOL_SETTINGS, ...settings };
+    this.logger = logger.forService('RpcPool').child({ transport: kind });
+
+    // The pool retries by failing over, so single endpoints do not retry on their own
+    const options = { timeout: this.settings.requestTimeoutMs, retryCount: 0 };
+    this.endpoints = urls.map((url, index) => ({
+      name: endpointName(url, index, urls),
+      instance: (kind === 'http' ? http(url, options) : webSocket(url, options))({}),
+      healthy: true,
+      errorRate: 0,
+      consecutiveFailures: 0,
+      cooldownUntil: 0
+    }));
+  }
+
+  /**
+   * A viem transport that sends every request through the pool
+   */
+  transport(): Transport {
+    const request = (async (args: EIP1193Parameters) => {
+      if (args.method === 'eth_sendRawTransaction' && this.settings.broadcastFanout) {
+        return await this.broadcast(args);
+      }
+      return await this.send(args);
+    }) as EIP1193RequestFn;
+
+    // Typed as a WebSocket transport so viem's watch actions subscribe instead of polling
+    const value = this.kind === 'websocket'
+      ? { subscribe: (args: SubscribeArgs) => this.subscribe(args) }
+      : undefined;
+
+    return ({ retryCount }) => createTransport({
+      key: 'rpcPool',
+      name: 'RPC Pool',
+      type: this.kind === 'websocket' ? 'webSocket' : 'http',
+      request,
+      retryCount: retryCount ?? 3
+    }, value);
+  }
+
+  /**
+   * Probe every endpoint now and then on the configured interval
+   */
+  async start(): Promise<void> {
+    await this.checkHealth();
+    this.healthCheckTimer = setInterval(() => void this.checkHealth(), this.settings.healthCheckIntervalMs);
+
+    const healthy = this.endpoints.filter(endpoint => endpoint.healthy).map(endpoint => endpoint.name);
+    this.logger.info(`🔌 ${healthy.length} of ${this.endpoints.length} ${this.kind} endpoints healthy${healthy.length > 0 ? `: ${healthy.join(', ')}` : ''}`);
+  }
+
+  stop(): void {
+    if (this.healthCheckTimer) {
+      clearInterval(this.healthCheckTimer);
+      delete this.healthCheckTimer;
+    }
+  }
+
+  hasHealthyEndpoint(): boolean {
+    return this.endpoints.some(endpoint => endpoint.healthy);
+  }
+
+  /**
+   * Whether the sockets carrying subscriptions (or, without any, the best endpoint's) are open
+   */
+  async isConnected(): Promise<boolean> {
+    if (this.kind !== 'websocket') {
+      return this.hasHealthyEndpoint();
+    }
+
+    const inUse = new Set(Array.from(this.subscriptions, subscription => subscription.endpoint).filter(endpoint => endpoint !== undefined));
+    const endpoints = inUse.size > 0 ? Array.from(inUse) : this.rank().slice(0, 1);
+    try {
+      const clients = await Promise.all(endpoints.map(endpoint => (endpoint.instance.value as WebSocketValue).getRpcClient()));
+      return clients.every(client => client.socket.readyState === 1); // WebSocket.OPEN
+    } catch {
+      return false;
+    }
+  }
+
+  getStatus(): RpcEndpointStatus[] {
+    const head = this.headBlock();
+    return this.endpoints.map(endpoint => ({
+      endpoint: endpoint.name,
+      transport: this.kind,
+      healthy: endpoint.healthy,
+      ...(endpoint.latencyMs !== undefined && { latencyMs: endpoint.latencyMs }),
+      errorRate: endpoint.errorRate,
+      ...(head !== undefined && endpoint.blockNumber !== undefined && { blockLag: Number(head - endpoint.blockNumber) })
+    }));
+  }
+
+  private async send(args: EIP1193Parameters): Promise<unknown> {
+    let lastError: unknown;
+    for (const endpoint of this.rank()) {
+      try {
+        return await this.request(endpoint, args);
+      } catch (error) {
+        if (!isEndpointFailure(error)) {
+          throw error;
+        }
+        lastError = error;
+        this.logger.debug(`🔀 ${args.method} failed on ${endpoint.name}, trying the next endpoint`, { error });
+      }
+    }
+    throw lastError;
+  }
+
+  /**
+   * Send a signed transaction to every healthy endpoint at once; the first acceptance wins and
+   * the others typically answer "already known"
+   */
+  private async broadcast(args: EIP1193Parameters): Promise<unknown> {
+    const healthy = this.rank().filter(endpoint => endpoint.healthy);
+    const targets = healthy.length > 0 ? healthy : this.rank();
+    this.logger.debug(`📡 Broadcasting transaction to ${targets.map(endpoint => endpoint.name).join(', ')}`);
+
+    try {
+      return await Promise.any(targets.map(endpoint => this.request(endpoint, args)));
+    } catch (error) {
+      throw error instanceof AggregateError ? error.errors[0] : error;
+    }
+  }
+
+  /**
+   * Send one request to one endpoint and record how it went
+   *
+   * A signed transaction the node answers "already known" for is in its mempool, typically sent
+   * there by an endpoint that accepted it and then timed out, so its hash is returned as if this
+   * endpoint had accepted it.
+   */
+  private async request(endpoint: Endpoint, args: EIP1193Parameters): Promise<unknown> {
+    const startedAt = Date.now();
+    try {
+      const result = await endpoint.instance.request(args);
+      this.recordSuccess(endpoint, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      if (isEndpointFailure(error)) {
+        this.recordFailure(endpoint);
+        throw error;
+      }
+      this.recordSuccess(endpoint, Date.now() - startedAt);
+
+      if (args.method === 'eth_sendRawTransaction' && isAlreadyKnown(error)) {
+        const [signedTransaction] = args.params as [Hex];
+        this.logger.debug(`📨 Transaction already known to ${endpoint.name}`);
+        return keccak256(signedTransaction);
+      }
+      throw error;
+    }
+  }
+
+  private async subscribe(args: SubscribeArgs): Promise<{ subscriptionId: `0x${string}`; unsubscribe: () => Promise<unknown> }> {
+    const subscription: Subscription = { args, unsubscribe: async () => true, moving: false, closed: false };
+    const subscriptionId = await this.attach(subscription);
+    this.subscriptions.add(subscription);
+
+    return {
+      subscriptionId,
+      unsubscribe: async () => {
+        subscription.closed = true;
+        this.subscriptions.delete(subscription);
+        return await subscription.unsubscribe();
+      }
+    };
+  }
+
+  /**
+   * Open the subscription on the best endpoint other than the one it is leaving, or on that one
+   * again when it is the only endpoint
+   */
+  private async attach(subscription: Subscription, leaving?: Endpoint): Promise<`0x${string}`> {
+    const others = this.rank().filter(endpoint => endpoint !== leaving);
+    let lastError: unknown;
+
+    for (const endpoint of others.length > 0 ? others : this.rank()) {
+      try {
+        const { subscriptionId, unsubscribe } = await (endpoint.instance.value as WebSocketValue).subscribe({
+          ...subscription.args,
+          onData: data => {
+            if (!subscription.closed && subscription.endpoint === endpoint) {
+              subscription.args.onData(data);
+            }
+          },
+          onError: () => {
+            if (!subscription.closed && subscription.endpoint === endpoint) {
+              this.recordFailure(endpoint);
+              void this.move(subscription);
+            }
+          }
+        } as SubscribeArgs);
+
+        subscription.endpoint = endpoint;
+        subscription.unsubscribe = unsubscribe;
+        return subscriptionId;
+      } catch (error) {
+        this.recordFailure(endpoint);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private async move(subscription: Subscription): Promise<void> {
+    if (subscription.moving || subscription.closed) {
+      return;
+    }
+
+    subscription.moving = true;
+    const from = subscription.endpoint;
+    try {
+      // The old socket may already be gone
+      await subscription.unsubscribe().catch(() => undefined);
+      await this.attach(subscription, from);
+      this.logger.info(`🔀 Moved ${subscription.args.params[0]} subscription from ${from?.name} to ${subscription.endpoint?.name}`);
+    } catch (error) {
+      this.logger.error(`❌ Failed to move ${subscription.args.params[0]} subscription off ${from?.name}`, { error });
+      subscription.args.onError?.(error);
+    } finally {
+      subscription.moving = false;
+    }
+  }
+
+  private async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      try {
+        endpoint.blockNumber = BigInt(await this.request(endpoint, { method: 'eth_blockNumber' }) as string);
+      } catch {
+        // Counted by request()
+      }
+    }));
+    this.updateHealth();
+  }
+
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === undefined ? latencyMs : endpoint.latencyMs + EWMA_WEIGHT * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate -= EWMA_WEIGHT * endpoint.errorRate;
+    endpoint.consecutiveFailures = 0;
+  }
+
+  private recordFailure(endpoint: Endpoint): void {
+    endpoint.errorRate += EWMA_WEIGHT * (1 - endpoint.errorRate);
+    endpoint.consecutiveFailures++;
+
+    if (endpoint.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      endpoint.consecutiveFailures = 0;
+      endpoint.cooldownUntil = Date.now() + COOLDOWN_MS;
+    }
+    this.updateHealth();
+  }
+
+  private updateHealth(): void {
+    const head = this.headBlock();
+    const now = Date.now();
+
+    for (const endpoint of this.endpoints) {
+      const blockLag = head !== undefined && endpoint.blockNumber !== undefined ? head - endpoint.blockNumber : 0n;
+      const healthy = now >= endpoint.cooldownUntil &&
+        endpoint.errorRate <= MAX_ERROR_RATE &&
+        blockLag <= BigInt(this.settings.maxBlockLag);
+
+      if (healthy === endpoint.healthy) {
+        continue;
+      }
+      endpoint.healthy = healthy;
+
+      if (healthy) {
+        this.logger.info(`✅ RPC endpoint ${endpoint.name} is healthy again`);
+        continue;
+      }
+
+      const reason = now < endpoint.cooldownUntil
+        ? `${MAX_CONSECUTIVE_FAILURES} failures in a row, skipped for ${COOLDOWN_MS / 1000}s`
+        : blockLag > BigInt(this.settings.maxBlockLag)
+          ? `${blockLag} blocks behind`
+          : `error rate ${Math.round(endpoint.errorRate * 100)}%`;
+      this.logger.warn(`⚠️ RPC endpoint ${endpoint.name} is unhealthy (${reason})`);
+
+      for (const subscription of this.subscriptions) {
+        if (subscription.endpoint === endpoint) {
+          void this.move(subscription);
+        }
+      }
+    }
+  }
+
+  /**
+   * Healthy endpoints first, each group ordered by latency weighted with the error rate; the
+   * configured order breaks ties
+   */
+  private rank(): Endpoint[] {
+    const score = (endpoint: Endpoint) => (endpoint.latencyMs ?? 0) * (1 + endpoint.errorRate);
+    return this.endpoints
+      .map((endpoint, index) => ({ endpoint, index }))
+      .sort((a, b) =>
+        Number(b.endpoint.healthy) - Number(a.endpoint.healthy) ||
+        score(a.endpoint) - score(b.endpoint) ||
+        a.index - b.index
+      )
+      .map(({ endpoint }) => endpoint);
+  }
+
+  // Highest block reported by an endpoint that is not cooling down
+  private headBlock(): bigint | undefined {
+    const now = Date.now();
+    return this.endpoints
+      .filter(endpoint => now >= endpoint.cooldownUntil && endpoint.blockNumber !== undefined)
+      .reduce<bigint | undefined>((head, endpoint) => head === undefined || endpoint.blockNumber! > head ? endpoint.blockNumber! : head, undefined);
+  }
+}
+
+/**
+ * Whether an error means the endpoint failed, rather than the node answering with an error that
+ * every endpoint would return (reverts, invalid parameters, rejected transactions)
+ */
+function isEndpointFailure(error: unknown): boolean {
+  if (
+    error instanceof HttpRequestError ||
+    error instanceof TimeoutError ||
+    error instanceof WebSocketRequestError ||
+    error instanceof SocketClosedError
+  ) {
+    return true;
+  }
+  if (!(error instanceof Error) || ExecutionRevertedError.nodeMessage.test(error.message)) {
+    return false;
+  }
+
+  const code = (error as { code?: unknown }).code;
+  return code === LimitExceededRpcError.code ||
+    code === ResourceUnavailableRpcError.code ||
+    code === InternalRpcError.code ||
+    code === MethodNotFoundRpcError.code ||
+    code === MethodNotSupportedRpcError.code;
+}
+
+// Nodes word this differently: geth "already known", older geth "known transaction",
+// Nethermind "AlreadyKnown"
+function isAlreadyKnown(error: unknown): boolean {
+  return error instanceof Error && /already ?known|known transaction/i.test(error.message);
+}
+
+// Endpoint label for logs and metrics: the host, numbered when several endpoints share it
+function endpointName(url: string, index: number, urls: string[]): string {
+  const host = new URL(url).host;
+  const sameHost = urls.filter(other => new URL(other).host === host).length > 1;
+  return sameHost ? `${host}#${index + 1}` : host;
+}
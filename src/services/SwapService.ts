@@ -0,0 +1,247 @@
+import { PublicClient, Address, encodeFunctionData, erc20Abi } from 'viem';
+import { AbiService } from './AbiService.js';
+import { PriceData, PriceService } from './PriceService.js';
+import { PreparedTransaction } from '../types/transaction.js';
+import { applyBps, compare, scaleDecimals } from '../utils/decimal.js';
+
+export type SwapInputToken = 'ETH' | 'USDC';
+
+export interface SwapQuote {
+  inputToken: SwapInputToken;
+  tokenIn: Address;
+  amountOut: bigint;        // USPD received
+  amountIn: bigint;         // Quoted input in the input token's units
+  amountInMaximum: bigint;  // Input including the slippage allowance
+  fee: number;              // Uniswap pool fee tier
+  gasEstimate: bigint;
+  costEth: bigint;          // What the worst-case input is worth in ETH
+}
+
+// Uniswap V3 QuoterV2 deployments, keyed by chain ID
+const QUOTER_ADDRESSES: Record<number, Address> = {
+  1: '0x61fFE014bA17989E743c5F6cB21bF9697530B21e',
+  11155111: '0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3'
+};
+
+const POOL_FEE_TIERS = [100, 500, 3000, 10000];
+const USDC_DECIMALS = 6;
+
+const QUOTER_ABI = [
+  {
+    name: 'quoteExactOutputSingle',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      {
+        name: 'params',
+        type: 'tuple',
+        components: [
+          { name: 'tokenIn', type: 'address' },
+          { name: 'tokenOut', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+          { name: 'fee', type: 'uint24' },
+          { name: 'sqrtPriceLimitX96', type: 'uint160' }
+        ]
+      }
+    ],
+    outputs: [
+      { name: 'amountIn', type: 'uint256' },
+      { name: 'sqrtPriceX96After', type: 'uint160' },
+      { name: 'initializedTicksCrossed', type: 'uint32' },
+      { name: 'gasEstimate', type: 'uint256' }
+    ]
+  }
+] as const;
+
+const ROUTER_WETH_ABI = [
+  {
+    name: 'WETH9',
+    type: 'function',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ type: 'address' }]
+  }
+] as const;
+
+export class SwapService {
+  private publicClient: PublicClient;
+  private abiService: AbiService;
+  private priceService: PriceService;
+  private routerAddress: Address;
+  private quoterAddress: Address;
+  private uspdTokenAddress: Address;
+  private usdcAddress: Address;
+  private inputToken: SwapInputToken;
+  private slippageBps: bigint;
+  private routerAbi: any[] = [];
+  private wethAddress?: Address;
+
+  constructor(
+    publicClient: PublicClient,
+    abiService: AbiService,
+    priceService: PriceService,
+    routerAddress: Address,
+    uspdTokenAddress: Address,
+    usdcAddress: Address,
+    inputToken: SwapInputToken = 'ETH',
+    slippageBps: number = 50,
+    quoterAddress?: Address
+  ) {
+    const chainId = publicClient.chain?.id ?? 1;
+    const resolvedQuoter = quoterAddress ?? QUOTER_ADDRESSES[chainId];
+    if (!resolvedQuoter) {
+      throw new Error(`No Uniswap quoter known for chain ID ${chainId}, set UNISWAP_QUOTER_ADDRESS`);
+    }
+
+    this.publicClient = publicClient;
+    this.abiService = abiService;
+    this.priceService = priceService;
+    this.routerAddress = routerAddress;
+    this.quoterAddress = resolvedQuoter;
+    this.uspdTokenAddress = uspdTokenAddress;
+    this.usdcAddress = usdcAddress;
+    this.inputToken = inputToken;
+    this.slippageBps = BigInt(slippageBps);
+  }
+
+  /**
+   * Quote the cheapest pool for buying an exact amount of USPD
+   */
+  async quoteUspd(amountOut: bigint, priceData: PriceData): Promise<SwapQuote> {
+    await this.loadRouter();
+
+    const tokenIn = this.inputToken === 'ETH' ? this.wethAddress! : this.usdcAddress;
+
+    const quotes = await Promise.allSettled(
+      POOL_FEE_TIERS.map(async fee => {
+        const { result } = await this.publicClient.simulateContract({
+          address: this.quoterAddress,
+          abi: QUOTER_ABI,
+          functionName: 'quoteExactOutputSingle',
+          args: [{ tokenIn, tokenOut: this.uspdTokenAddress, amount: amountOut, fee, sqrtPriceLimitX96: 0n }]
+        });
+        return { fee, amountIn: result[0], gasEstimate: result[3] };
+      })
+    );
+
+    // Pools that do not exist or lack liquidity make the quoter revert
+    const best = quotes
+      .filter(quote => quote.status === 'fulfilled')
+      .map(quote => quote.value)
+      .sort((a, b) => compare(a.amountIn, b.amountIn))[0];
+
+    if (!best) {
+      throw new Error(`No Uniswap pool can swap ${this.inputToken} for USPD`);
+    }
+
+    const amountInMaximum = best.amountIn + applyBps(best.amountIn, this.slippageBps, 'up');
+
+    return {
+      inputToken: this.inputToken,
+      tokenIn,
+      amountOut,
+      amountIn: best.amountIn,
+      amountInMaximum,
+      fee: best.fee,
+      gasEstimate: best.gasEstimate,
+      costEth: this.toEth(amountInMaximum, priceData)
+    };
+  }
+
+  /**
+   * Build the transactions that execute a quote: an optional USDC approval and the swap itself
+   */
+  async buildSwapTransactions(quote: SwapQuote, recipient: Address): Promise<PreparedTransaction[]> {
+    await this.loadRouter();
+
+    const transactions: PreparedTransaction[] = [];
+
+    if (quote.inputToken === 'USDC') {
+      const allowance = await this.publicClient.readContract({
+        address: this.usdcAddress,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [recipient, this.routerAddress]
+      });
+
+      if (allowance < quote.amountInMaximum) {
+        transactions.push({
+          label: 'USDC approval for Uniswap',
+          to: this.usdcAddress,
+          data: encodeFunctionData({
+            abi: erc20Abi,
+            functionName: 'approve',
+            args: [this.routerAddress, quote.amountInMaximum]
+          }),
+          value: 0n
+        });
+      }
+    }
+
+    // SwapRouter has a deadline field, SwapRouter02 does not; unknown fields are ignored when encoding
+    const swapParams = {
+      tokenIn: quote.tokenIn,
+      tokenOut: this.uspdTokenAddress,
+      fee: quote.fee,
+      recipient,
+      deadline: BigInt(Math.floor(Date.now() / 1000) + 300),
+      amountOut: quote.amountOut,
+      amountInMaximum: quote.amountInMaximum,
+      sqrtPriceLimitX96: 0n
+    };
+
+    const swapCall = encodeFunctionData({
+      abi: this.routerAbi,
+      functionName: 'exactOutputSingle',
+      args: [swapParams]
+    });
+
+    if (quote.inputToken === 'ETH') {
+      // Unspent ETH stays in the router unless it is refunded in the same transaction
+      const refundCall = encodeFunctionData({ abi: this.routerAbi, functionName: 'refundETH', args: [] });
+      transactions.push({
+        label: 'Uniswap ETH → USPD swap',
+        to: this.routerAddress,
+        data: encodeFunctionData({ abi: this.routerAbi, functionName: 'multicall', args: [[swapCall, refundCall]] }),
+        value: quote.amountInMaximum
+      });
+    } else {
+      transactions.push({
+        label: 'Uniswap USDC → USPD swap',
+        to: this.routerAddress,
+        data: swapCall,
+        value: 0n
+      });
+    }
+
+    return transactions;
+  }
+
+  /**
+   * Load the router ABI and the WETH address it wraps ETH into
+   */
+  private async loadRouter(): Promise<void> {
+    if (this.routerAbi.length > 0 && this.wethAddress) {
+      return;
+    }
+
+    this.routerAbi = await this.abiService.getContractAbi(this.routerAddress);
+    this.wethAddress = await this.publicClient.readContract({
+      address: this.routerAddress,
+      abi: ROUTER_WETH_ABI,
+      functionName: 'WETH9'
+    });
+  }
+
+  /**
+   * Value an input token amount in ETH using the oracle price
+   */
+  private toEth(amount: bigint, priceData: PriceData): bigint {
+    if (this.inputToken === 'ETH') {
+      return amount;
+    }
+
+    // USDC is a USD amount with 6 decimals
+    return this.priceService.usdToEth(scaleDecimals(amount, USDC_DECIMALS, 18), priceData, 'up');
+  }
+}
@@ -0,0 +1,198 @@
+import { PublicClient, WalletClient, Hash } from 'viem';
+import { Logger } from '../utils/logger.js';
+
+export type TransactionStatus = 'pending' | 'mined' | 'reverted' | 'dropped';
+
+export interface TrackedTransaction {
+  nonce: number;
+  label: string;
+  nftId?: bigint;
+  hashes: Hash[];          // Original hash followed by any same-nonce replacements
+  status: TransactionStatus;
+  submittedAt: number;
+  settledAt?: number;
+}
+
+// Settled transactions kept around for inspection
+const MAX_SETTLED_HISTORY = 100;
+
+export class TransactionTracker {
+  private publicClient: PublicClient;
+  private walletClient: WalletClient;
+  private nextNonce: number | undefined;
+  private nonceLock: Promise<unknown> = Promise.resolve();
+  private allocatedNonces: Set<number> = new Set();
+  private resyncDeferred = false;
+  private inFlightPositions: Set<string> = new Set();
+  private transactions: Map<number, TrackedTransaction> = new Map();
+  private logger: Logger;
+
+  constructor(publicClient: PublicClient, walletClient: WalletClient, logger: Logger = new Logger()) {
+    this.publicClient = publicClient;
+    this.walletClient = walletClient;
+    this.logger = logger.forService('TransactionTracker');
+  }
+
+  /**
+   * Mark a position as being liquidated; returns false if it already is, or while a transaction sent
+   * for it has not settled, since a liquidation that was given up on can still be mined
+   */
+  lockPosition(nftId: bigint): boolean {
+    const key = nftId.toString();
+    if (this.isPositionLocked(nftId)) {
+      return false;
+    }
+    this.inFlightPositions.add(key);
+    return true;
+  }
+
+  /**
+   * Release the in-flight lock for a position
+   */
+  unlockPosition(nftId: bigint): void {
+    this.inFlightPositions.delete(nftId.toString());
+  }
+
+  /**
+   * Check whether a liquidation for a position is currently in flight or still pending on-chain
+   */
+  isPositionLocked(nftId: bigint): boolean {
+    return this.inFlightPositions.has(nftId.toString()) ||
+      this.getPendingTransactions().some(tx => tx.nftId === nftId);
+  }
+
+  /**
+   * Hand out the next nonce, serialized so concurrent senders never receive the same one
+   */
+  async allocateNonce(): Promise<number> {
+    const allocation = this.nonceLock.then(async () => {
+      if (this.nextNonce === undefined) {
+        this.nextNonce = await this.fetchChainNonce();
+      }
+      const nonce = this.nextNonce++;
+      this.allocatedNonces.add(nonce);
+      return nonce;
+    });
+
+    // Keep the chain alive even if this allocation fails
+    this.nonceLock = allocation.catch(() => undefined);
+    return allocation;
+  }
+
+  /**
+   * Hand a nonce back once its transaction has settled or was never sent
+   *
+   * @param resync Re-read the nonce from the chain, e.g. after a failed send or a dropped transaction
+   */
+  async releaseNonce(nonce: number, resync: boolean = false): Promise<void> {
+    this.allocatedNonces.delete(nonce);
+    if (resync || (this.resyncDeferred && this.allocatedNonces.size === 0)) {
+      await this.resyncNonce();
+    }
+  }
+
+  /**
+   * Re-read the nonce from the chain
+   *
+   * The chain does not count nonces that are allocated but not yet broadcast, so while any are
+   * outstanding the resync is deferred until the last of them is released.
+   */
+  async resyncNonce(): Promise<void> {
+    const resync = this.nonceLock.then(async () => {
+      if (this.allocatedNonces.size > 0) {
+        this.resyncDeferred = true;
+        return;
+      }
+
+      this.resyncDeferred = false;
+      const chainNonce = await this.fetchChainNonce();
+      if (chainNonce !== this.nextNonce) {
+        this.logger.info(`🔁 Resynchronised nonce: ${this.nextNonce ?? 'unset'} → ${chainNonce}`);
+      }
+      this.nextNonce = chainNonce;
+    });
+
+    this.nonceLock = resync.catch(() => undefined);
+    try {
+      await resync;
+    } catch (error) {
+      // Force a fresh read on the next allocation instead
+      this.nextNonce = undefined;
+      this.logger.error('❌ Failed to resynchronise nonce', { error });
+    }
+  }
+
+  /**
+   * Start tracking a broadcast transaction
+   */
+  trackSubmitted(nonce: number, hash: Hash, label: string, nftId?: bigint): void {
+    this.transactions.set(nonce, {
+      nonce,
+      label,
+      ...(nftId !== undefined && { nftId }),
+      hashes: [hash],
+      status: 'pending',
+      submittedAt: Date.now()
+    });
+  }
+
+  /**
+   * Record a same-nonce replacement of a tracked transaction
+   */
+  trackReplaced(nonce: number, hash: Hash): void {
+    this.transactions.get(nonce)?.hashes.push(hash);
+  }
+
+  /**
+   * Move a tracked transaction to its final state
+   */
+  trackSettled(nonce: number, status: Exclude<TransactionStatus, 'pending'>): void {
+    const transaction = this.transactions.get(nonce);
+    if (!transaction) {
+      return;
+    }
+
+    transaction.status = status;
+    transaction.settledAt = Date.now();
+    this.logger.info(`📒 Transaction ${transaction.label} ${status}`, {
+      nonce,
+      txHash: transaction.hashes[transaction.hashes.length - 1],
+      ...(transaction.nftId !== undefined && { nftId: transaction.nftId })
+    });
+
+    this.pruneSettled();
+  }
+
+  /**
+   * Get all transactions that have not settled yet
+   */
+  getPendingTransactions(): TrackedTransaction[] {
+    return Array.from(this.transactions.values()).filter(tx => tx.status === 'pending');
+  }
+
+  /**
+   * Get all tracked transactions, most recent first
+   */
+  getTransactions(): TrackedTransaction[] {
+    return Array.from(this.transactions.values()).sort((a, b) => b.nonce - a.nonce);
+  }
+
+  private async fetchChainNonce(): Promise<number> {
+    const account = this.walletClient.account;
+    if (!account) {
+      throw new Error('Wallet client has no account configured');
+    }
+
+    return this.publicClient.getTransactionCount({ address: account.address, blockTag: 'pending' });
+  }
+
+  private pruneSettled(): void {
+    const settled = Array.from(this.transactions.values())
+      .filter(tx => tx.status !== 'pending')
+      .sort((a, b) => a.nonce - b.nonce);
+
+    for (const tx of settled.slice(0, Math.max(0, settled.length - MAX_SETTLED_HISTORY))) {
+      this.transactions.delete(tx.nonce);
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Address, Hex } from 'viem';
+
+/**
+ * An unsigned transaction built by a service for LiquidationService to send
+ */
+export interface PreparedTransaction {
+  label: string;
+  to: Address;
+  data: Hex;
+  value: bigint;
+}
@@ -0,0 +1,23 @@
+import { Chain, defineChain } from 'viem';
+import * as knownChains from 'viem/chains';
+
+// Multicall3 is deployed at the same address on nearly every EVM chain
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+/**
+ * Look up a chain by ID in viem's chain list, or define a minimal one for a chain viem does not know
+ */
+export function resolveChain(chainId: number, rpcUrl: string): Chain {
+  const known = Object.values(knownChains as Record<string, Chain>).find(chain => chain.id === chainId);
+  if (known) {
+    return known;
+  }
+
+  return defineChain({
+    id: chainId,
+    name: `Chain ${chainId}`,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+    rpcUrls: { default: { http: [rpcUrl] } },
+    contracts: { multicall3: { address: MULTICALL3_ADDRESS } }
+  });
+}
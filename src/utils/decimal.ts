@@ -0,0 +1,122 @@
+/**
+ * Fixed-point decimal helpers for token amounts, prices, ratios and profits
+ *
+ * All math stays in bigint so wei-sized values never lose precision.
+ */
+
+export const WAD = 10n ** 18n;   // 1.0 with 18 decimals
+export const BPS = 10000n;       // 100% in basis points
+
+export type Rounding = 'down' | 'up' | 'half-up';
+
+/**
+ * 10^decimals as a bigint (BigInt(10 ** decimals) is inexact past 2^53)
+ */
+export function pow10(decimals: number | bigint): bigint {
+  return 10n ** BigInt(decimals);
+}
+
+/**
+ * Compute a * b / denominator with explicit rounding
+ */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint, rounding: Rounding = 'down'): bigint {
+  if (denominator === 0n) {
+    throw new RangeError('Division by zero');
+  }
+  return divide(a * b, denominator, rounding);
+}
+
+/**
+ * Divide with explicit rounding; rounding is applied to the magnitude
+ */
+export function divide(numerator: bigint, denominator: bigint, rounding: Rounding = 'down'): bigint {
+  if (denominator === 0n) {
+    throw new RangeError('Division by zero');
+  }
+
+  const negative = (numerator < 0n) !== (denominator < 0n);
+  const n = abs(numerator);
+  const d = abs(denominator);
+
+  let quotient = n / d;
+  const remainder = n % d;
+  if (remainder !== 0n && (rounding === 'up' || (rounding === 'half-up' && remainder * 2n >= d))) {
+    quotient += 1n;
+  }
+
+  return negative ? -quotient : quotient;
+}
+
+/**
+ * Rescale an amount from one number of decimals to another
+ */
+export function scaleDecimals(amount: bigint, fromDecimals: number, toDecimals: number, rounding: Rounding = 'down'): bigint {
+  if (toDecimals >= fromDecimals) {
+    return amount * pow10(toDecimals - fromDecimals);
+  }
+  return divide(amount, pow10(fromDecimals - toDecimals), rounding);
+}
+
+/**
+ * Express numerator / denominator in basis points (10000 = 100%)
+ */
+export function toBps(numerator: bigint, denominator: bigint, rounding: Rounding = 'down'): bigint {
+  return mulDiv(numerator, BPS, denominator, rounding);
+}
+
+/**
+ * Apply a basis-point factor to an amount
+ */
+export function applyBps(amount: bigint, bps: bigint, rounding: Rounding = 'down'): bigint {
+  return mulDiv(amount, bps, BPS, rounding);
+}
+
+export function abs(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+export function min(first: bigint, ...rest: bigint[]): bigint {
+  return rest.reduce((result, value) => (value < result ? value : result), first);
+}
+
+export function max(first: bigint, ...rest: bigint[]): bigint {
+  return rest.reduce((result, value) => (value > result ? value : result), first);
+}
+
+/**
+ * Three-way comparison, usable directly as an Array.sort comparator
+ */
+export function compare(a: bigint, b: bigint): -1 | 0 | 1 {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Format a fixed-point amount with a fixed number of fraction digits, rounding half up
+ */
+export function formatDecimal(amount: bigint, decimals: number, fractionDigits: number): string {
+  const scaled = scaleDecimals(amount, decimals, fractionDigits, 'half-up');
+  const negative = scaled < 0n;
+  const magnitude = abs(scaled);
+  const unit = pow10(fractionDigits);
+
+  const integer = magnitude / unit;
+  const fraction = fractionDigits > 0
+    ? '.' + (magnitude % unit).toString().padStart(fractionDigits, '0')
+    : '';
+
+  return `${negative ? '-' : ''}${integer}${fraction}`;
+}
+
+/**
+ * Format a token amount with human-readable value in parentheses
+ */
+export function formatTokenAmount(amount: bigint, decimals: number = 18, symbol: string = ''): string {
+  return `${amount.toString()} ${symbol}(${formatDecimal(amount, decimals, 4)} ${symbol})`.trim();
+}
+
+/**
+ * Format basis points as a percentage without the % sign (15623 → "156.23")
+ */
+export function formatBps(bps: bigint, fractionDigits: number = 2): string {
+  return formatDecimal(bps, 2, fractionDigits);
+}
@@ -0,0 +1,183 @@
+/**
+ * Leveled logging for the bot and its services
+ *
+ * Pretty output is meant for a terminal; JSON output writes one object per line to stdout so a log
+ * pipeline can parse it. Context fields (nftId, txHash, block, ...) are attached to every line a
+ * logger writes, and each service can run at its own level.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFormat = 'pretty' | 'json';
+export type LogContext = Record<string, unknown>;
+
+export interface LoggerSettings {
+  level: LogLevel;                          // Default level for every service
+  format: LogFormat;
+  serviceLevels: Record<string, LogLevel>;  // Per-service overrides, keyed by service name
+}
+
+export const DEFAULT_LOGGER_SETTINGS: LoggerSettings = {
+  level: 'info',
+  format: 'pretty',
+  serviceLevels: {}
+};
+
+const LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+// Leading emoji of pretty messages, dropped from JSON lines
+const EMOJI_PREFIX = /^[\p{Extended_Pictographic}\uFE0F\u200D\s]+/u;
+
+/**
+ * Parse a log level from configuration
+ */
+export function parseLogLevel(value: string): LogLevel {
+  const level = value.trim().toLowerCase();
+  if (!Object.hasOwn(LEVEL_RANK, level)) {
+    throw new Error(`Invalid log level "${value}", expected one of ${Object.keys(LEVEL_RANK).join(', ')}`);
+  }
+  return level as LogLevel;
+}
+
+/**
+ * Parse a log format from configuration
+ */
+export function parseLogFormat(value: string): LogFormat {
+  const format = value.trim().toLowerCase();
+  if (format !== 'pretty' && format !== 'json') {
+    throw new Error(`Invalid log format "${value}", expected pretty or json`);
+  }
+  return format;
+}
+
+/**
+ * Parse per-service levels, e.g. "PositionService=debug,GasService=warn"
+ */
+export function parseServiceLevels(value: string): Record<string, LogLevel> {
+  const levels: Record<string, LogLevel> = {};
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [service, level] = entry.split('=').map(part => part.trim());
+    if (!service || !level) {
+      throw new Error(`Invalid service log level "${entry}", expected <Service>=<level>`);
+    }
+    levels[service] = parseLogLevel(level);
+  }
+  return levels;
+}
+
+export class Logger {
+  private settings: LoggerSettings;
+  private service?: string;
+  private context: LogContext;
+  private level: LogLevel;
+
+  constructor(settings: Partial<LoggerSettings> = {}, service?: string, context: LogContext = {}) {
+    this.settings = { ...DEFAULT_LOGGER_SETTINGS, ...settings };
+    if (service) {
+      this.service = service;
+    }
+    this.context = context;
+    this.level = (service && this.settings.serviceLevels[service]) || this.settings.level;
+  }
+
+  /**
+   * Logger for a service, at the service's configured level
+   */
+  forService(service: string): Logger {
+    return new Logger(this.settings, service, this.context);
+  }
+
+  /**
+   * Logger that adds the given fields to every line
+   */
+  child(context: LogContext): Logger {
+    return new Logger(this.settings, this.service, { ...this.context, ...context });
+  }
+
+  isLevelEnabled(level: LogLevel): boolean {
+    return LEVEL_RANK[level] >= LEVEL_RANK[this.level];
+  }
+
+  debug(message: string, context?: LogContext): void {
+    this.write('debug', message, context);
+  }
+
+  info(message: string, context?: LogContext): void {
+    this.write('info', message, context);
+  }
+
+  warn(message: string, context?: LogContext): void {
+    this.write('warn', message, context);
+  }
+
+  /**
+   * Pass a caught error as the error field; its stack is kept in both formats
+   */
+  error(message: string, context?: LogContext): void {
+    this.write('error', message, context);
+  }
+
+  private write(level: LogLevel, message: string, context?: LogContext): void {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const fields = { ...this.context, ...context };
+
+    if (this.settings.format === 'json') {
+      const line = JSON.stringify({
+        time: new Date().toISOString(),
+        level,
+        ...(this.service && { service: this.service }),
+        msg: message.replace(EMOJI_PREFIX, ''),
+        ...fields
+      }, (_, value) => serializeValue(value));
+      process.stdout.write(line + '\n');
+      return;
+    }
+
+    const { error, ...rest } = fields;
+    const text = [
+      new Date().toISOString().slice(11, 23),
+      level.toUpperCase().padEnd(5),
+      ...(this.service ? [`[${this.service}]`] : []),
+      message,
+      ...Object.entries(rest).map(([key, value]) => `${key}=${formatValue(value)}`),
+      ...(error !== undefined && !(error instanceof Error && level === 'error') ? [`error=${formatValue(error)}`] : [])
+    ].join(' ');
+
+    // Errors logged at error level are printed with their stack, as console.error does
+    const args = error instanceof Error && level === 'error' ? [text, error] : [text];
+    if (level === 'error') {
+      console.error(...args);
+    } else if (level === 'warn') {
+      console.warn(...args);
+    } else {
+      console.log(...args);
+    }
+  }
+}
+
+function serializeValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function formatValue(value: unknown): string {
+  if (value instanceof Error) {
+    return value.message;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return JSON.stringify(value, (_, nested) => serializeValue(nested));
+  }
+  return String(value);
+}
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicClient, WalletClient, parseGwei } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { GasService, PendingTransaction } from '../src/services/GasService.js';
+import { Logger } from '../src/utils/logger.js';
+
+const account = privateKeyToAccount('0x1111111111111111111111111111111111111111111111111111111111111111');
+const logger = new Logger({ level: 'error' });
+
+/**
+ * A chain that advances one block per poll and never mines anything
+ */
+function stuckChain() {
+  let block = 100n;
+  const sent: { nonce: number; to: string; maxFeePerGas: bigint }[] = [];
+
+  const publicClient = {
+    pollingInterval: 0,
+    getBlockNumber: async () => block++,
+    getTransactionCount: async () => 7,
+    getTransactionReceipt: async () => {
+      throw new Error('Transaction receipt not found');
+    },
+    getFeeHistory: async () => ({ baseFeePerGas: [parseGwei('1')], reward: [[parseGwei('1')]] })
+  } as unknown as PublicClient;
+
+  const walletClient = {
+    account,
+    chain: undefined,
+    sendTransaction: async (tx: { nonce: number; to: string; maxFeePerGas: bigint }) => {
+      sent.push(tx);
+      return `0x${sent.length.toString(16).padStart(64, '0')}`;
+    }
+  } as unknown as WalletClient;
+
+  return { publicClient, walletClient, sent };
+}
+
+function pending(sentAtBlock: bigint): PendingTransaction {
+  return {
+    hash: `0x${'0'.repeat(64)}`,
+    nonce: 7,
+    to: '0x0000000000000000000000000000000000000001',
+    data: '0x',
+    value: 0n,
+    gas: 100000n,
+    maxFeePerGas: parseGwei('3'),
+    maxPriorityFeePerGas: parseGwei('1'),
+    sentAtBlock
+  };
+}
+
+describe('GasService.waitForConfirmation', () => {
+  it('speeds up, cancels and gives up after maxWaitBlocks when nothing is mined', async () => {
+    const { publicClient, walletClient, sent } = stuckChain();
+    const gasService = new GasService(publicClient, walletClient, { replacementBlocks: 2, maxReplacements: 1, maxWaitBlocks: 10 }, logger);
+
+    const result = await gasService.waitForConfirmation(pending(100n));
+
+    assert.equal(result.timedOut, true);
+    assert.equal(result.receipt, undefined);
+    assert.equal(result.cancelled, true);
+    assert.equal(result.replacements, 1);
+    // One speed-up and one cancellation, both on the original nonce
+    assert.equal(sent.length, 2);
+    assert.ok(sent.every(tx => tx.nonce === 7));
+    assert.equal(sent[1]!.to, account.address);
+  });
+
+  it('keeps the cancellation pending for at most maxWaitBlocks even when it is priced under the cap', async () => {
+    const { publicClient, walletClient, sent } = stuckChain();
+    const gasService = new GasService(publicClient, walletClient, { replacementBlocks: 1, maxReplacements: 0, maxWaitBlocks: 5 }, logger);
+
+    const result = await gasService.waitForConfirmation(pending(100n));
+
+    assert.equal(result.timedOut, true);
+    assert.equal(sent.length, 1);
+  });
+});
+
+describe('GasService.waitForNonce', () => {
+  it('waits until the nonce is used and returns the receipt of the hash that used it', async () => {
+    let confirmed = 6;
+    const publicClient = {
+      pollingInterval: 0,
+      getTransactionCount: async () => confirmed++,
+      getTransactionReceipt: async ({ hash }: { hash: string }) => {
+        if (hash !== `0x${'2'.repeat(64)}`) throw new Error('Transaction receipt not found');
+        return { transactionHash: hash, status: 'success' };
+      }
+    } as unknown as PublicClient;
+    const gasService = new GasService(publicClient, { account } as unknown as WalletClient, {}, logger);
+
+    const receipt = await gasService.waitForNonce(7, [`0x${'1'.repeat(64)}`, `0x${'2'.repeat(64)}`]);
+
+    assert.equal(receipt?.transactionHash, `0x${'2'.repeat(64)}`);
+    assert.equal(confirmed, 9);
+  });
+
+  it('returns no receipt when another transaction used the nonce', async () => {
+    const { publicClient, walletClient } = stuckChain();
+    const gasService = new GasService(publicClient, walletClient, {}, logger);
+
+    assert.equal(await gasService.waitForNonce(6, [`0x${'1'.repeat(64)}`]), undefined);
+  });
+});
@@ -0,0 +1,52 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { HttpServer, json } from '../src/services/HttpServer.js';
+import { Logger } from '../src/utils/logger.js';
+
+const PORT = 39127;
+
+// Raw requests, since fetch neither sends arbitrary Host headers nor unnormalized paths
+function status(path: string, headers: Record<string, string> = {}): Promise<number | undefined> {
+  return new Promise((resolve, reject) => {
+    http.get({ host: '127.0.0.1', port: PORT, path, headers }, response => {
+      response.resume();
+      resolve(response.statusCode);
+    }).on('error', reject);
+  });
+}
+
+describe('HttpServer', () => {
+  const server = new HttpServer(PORT, '127.0.0.1', new Logger({ level: 'error' }))
+    .route('/positions/:nftId', (_url, params) => json(200, { nftId: params.nftId }));
+
+  before(() => server.start());
+  after(() => server.stop());
+
+  it('passes decoded path params to the handler', async () => {
+    const response = await fetch(`http://127.0.0.1:${PORT}/positions/a%20b`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { nftId: 'a b' });
+  });
+
+  it('answers malformed escapes with 400', async () => {
+    const response = await fetch(`http://127.0.0.1:${PORT}/positions/%E0`);
+
+    assert.equal(response.status, 400);
+  });
+
+  it('serves requests with a malformed Host header', async () => {
+    assert.equal(await status('/positions/1', { Host: '[' }), 200);
+  });
+
+  it('answers paths that are not valid URLs with 400', async () => {
+    assert.equal(await status('//[/positions/1'), 400);
+  });
+
+  it('answers unknown paths with 404', async () => {
+    const response = await fetch(`http://127.0.0.1:${PORT}/nowhere`);
+
+    assert.equal(response.status, 404);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseEther } from 'viem';
+import { LiquidationQueue } from '../src/services/LiquidationQueue.js';
+import { LiquidationResult, LiquidationService } from '../src/services/LiquidationService.js';
+import { StabilizerPosition } from '../src/services/PositionService.js';
+import { PriceData } from '../src/services/PriceService.js';
+import { Logger } from '../src/utils/logger.js';
+import { position, priceData } from './fixtures.js';
+
+const logger = new Logger({ level: 'error' });
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(settle => { resolve = settle; });
+  return { promise, resolve };
+}
+
+/**
+ * A liquidation service whose preparations and liquidations finish when the test says so; the
+ * preparation adds `funded` USPD to the balance
+ */
+function service(balance: bigint = parseEther('1000000'), funded: bigint = 0n) {
+  const calls = { prepared: 0, reserved: [] as bigint[], liquidated: [] as bigint[] };
+  const preparation = deferred();
+  const liquidation = deferred<LiquidationResult>();
+
+  const liquidationService = {
+    estimateProfit: async (target: StabilizerPosition) => ({ nftId: target.nftId, netProfitEth: parseEther('0.05'), gasEstimated: true }),
+    getUspdBalance: async () => balance,
+    prepareLiquidations: async (_positions: StabilizerPosition[], _priceData: PriceData, _maxUspd: bigint, reservedUspd: () => bigint) => {
+      calls.prepared++;
+      calls.reserved.push(reservedUspd());
+      await preparation.promise;
+      balance += funded;
+    },
+    liquidatePosition: async (target: StabilizerPosition) => {
+      calls.liquidated.push(target.nftId);
+      return liquidation.promise;
+    }
+  } as unknown as LiquidationService;
+
+  return { liquidationService, calls, preparation, liquidation };
+}
+
+describe('LiquidationQueue.prepare', () => {
+  it('does not hold back liquidations while watchlisted positions are being funded', async () => {
+    const { liquidationService, calls, preparation, liquidation } = service();
+    const queue = new LiquidationQueue(liquidationService, 3, undefined, logger);
+    const positions = [position({ nftId: 1n })];
+
+    const preparing = queue.prepare([position({ nftId: 2n })], priceData(2000), parseEther('5000'));
+    await queue.update(positions, priceData(2000));
+
+    assert.deepEqual(calls.liquidated, [1n]);
+
+    preparation.resolve();
+    liquidation.resolve({ success: true });
+    await preparing;
+  });
+
+  it('reserves the USPD allotted to in-flight and ranked liquidations', async () => {
+    const { liquidationService, calls, preparation, liquidation } = service(parseEther('5000'));
+    const queue = new LiquidationQueue(liquidationService, 1, undefined, logger);
+
+    await queue.update([
+      position({ nftId: 1n, uspdDebt: parseEther('2000') }),
+      position({ nftId: 2n, uspdDebt: parseEther('1500') })
+    ], priceData(2000));
+    preparation.resolve();
+    await queue.prepare([position({ nftId: 3n })], priceData(2000), parseEther('5000'));
+
+    assert.deepEqual(calls.reserved, [parseEther('3500')]);
+    liquidation.resolve({ success: true });
+  });
+
+  it('re-ranks against the funded balance as soon as it is done', async () => {
+    const { liquidationService, preparation, liquidation } = service(0n, parseEther('2000'));
+    const queue = new LiquidationQueue(liquidationService, 1, undefined, logger);
+
+    await queue.update([
+      position({ nftId: 1n, uspdDebt: parseEther('2000') }),
+      position({ nftId: 2n, uspdDebt: parseEther('2000') })
+    ], priceData(2000));
+    assert.equal(queue.getRanking()[0]!.allocatedUspd, 0n);
+
+    preparation.resolve();
+    await queue.prepare([position({ nftId: 3n })], priceData(2000), parseEther('5000'));
+
+    assert.equal(queue.getRanking()[0]!.allocatedUspd, parseEther('2000'));
+    liquidation.resolve({ success: true });
+  });
+
+  it('is skipped while a previous preparation is running', async () => {
+    const { liquidationService, calls, preparation } = service();
+    const queue = new LiquidationQueue(liquidationService, 3, undefined, logger);
+
+    const preparing = queue.prepare([position({ nftId: 1n })], priceData(2000), parseEther('5000'));
+    await queue.prepare([position({ nftId: 1n })], priceData(2000), parseEther('5000'));
+    assert.equal(calls.prepared, 1);
+
+    preparation.resolve();
+    await preparing;
+  });
+});
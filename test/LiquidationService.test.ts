@@ -0,0 +1,287 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Address, Hash, Hex, PublicClient, WalletClient, decodeFunctionData, erc20Abi, maxUint256, parseEther, parseGwei } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { LiquidationService } from '../src/services/LiquidationService.js';
+import { AbiService } from '../src/services/AbiService.js';
+import { GasService, PendingTransaction } from '../src/services/GasService.js';
+import { MintService } from '../src/services/MintService.js';
+import { PriceService } from '../src/services/PriceService.js';
+import { ProfitService, LiquidationProfitBreakdown } from '../src/services/ProfitService.js';
+import { SwapService } from '../src/services/SwapService.js';
+import { StabilizerPosition } from '../src/services/PositionService.js';
+import { Logger } from '../src/utils/logger.js';
+import { position, priceData } from './fixtures.js';
+
+const STABILIZER_ADDRESS: Address = '0x0000000000000000000000000000000000005ab1';
+const CUSPD_ADDRESS: Address = '0x000000000000000000000000000000000000c05d';
+const USPD_ADDRESS: Address = '0x0000000000000000000000000000000000005d00';
+const MINTER_ADDRESS: Address = '0x000000000000000000000000000000000000a1a7';
+const account = privateKeyToAccount('0x1111111111111111111111111111111111111111111111111111111111111111');
+const logger = new Logger({ level: 'error' });
+
+const STABILIZER_ABI = [
+  {
+    name: 'liquidatePosition',
+    type: 'function',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'liquidatorTokenId', type: 'uint256' },
+      { name: 'positionTokenId', type: 'uint256' },
+      { name: 'sharesToLiquidate', type: 'uint256' },
+      {
+        name: 'priceQuery',
+        type: 'tuple',
+        components: [
+          { name: 'price', type: 'uint256' },
+          { name: 'decimals', type: 'uint8' },
+          { name: 'dataTimestamp', type: 'uint256' },
+          { name: 'assetPair', type: 'bytes32' },
+          { name: 'signature', type: 'bytes' }
+        ]
+      }
+    ],
+    outputs: []
+  }
+] as const;
+
+interface ChainOptions {
+  uspdBalance?: bigint;
+  profits?: Map<bigint, bigint>;   // Net profit by position, 0.04865 ETH for the others
+  minedLate?: Promise<void>;       // Transactions outlast the confirmation wait and are mined once it resolves
+}
+
+/**
+ * A chain holding the cUSPD allowance: approvals replace it, liquidations spend it and revert
+ * when it is too low, the way the token does. Mints add to the USPD balance.
+ */
+function chain(initialAllowance: bigint, { uspdBalance = parseEther('1000000'), profits = new Map(), minedLate }: ChainOptions = {}) {
+  const state = {
+    allowance: initialAllowance,
+    uspdBalance,
+    approvals: [] as bigint[],
+    mints: [] as bigint[],
+    liquidations: [] as { nftId: bigint; status: 'success' | 'reverted' }[]
+  };
+  let sent = 0;
+
+  const publicClient = {
+    readContract: async ({ functionName }: { functionName: string }) => {
+      if (functionName === 'allowance') return state.allowance;
+      if (functionName === 'balanceOf') return state.uspdBalance;
+      throw new Error(`Unexpected read ${functionName}`);
+    },
+    simulateContract: async () => ({ result: undefined }),
+    estimateContractGas: async () => 100000n,
+    estimateGas: async () => 100000n,
+    getTransactionCount: async () => 0
+  } as unknown as PublicClient;
+
+  // Applies a transaction's effects the way the token and the StabilizerNFT do
+  const mine = (pending: PendingTransaction) => {
+    let status: 'success' | 'reverted' = 'success';
+
+    if (pending.to === CUSPD_ADDRESS) {
+      const { args } = decodeFunctionData({ abi: erc20Abi, data: pending.data });
+      state.allowance = args[1] as bigint;
+      state.approvals.push(state.allowance);
+    } else if (pending.to === MINTER_ADDRESS) {
+      state.uspdBalance += pending.value;
+      state.mints.push(pending.value);
+    } else {
+      const { args } = decodeFunctionData({ abi: STABILIZER_ABI, data: pending.data });
+      const shares = args[2];
+      status = state.allowance >= shares ? 'success' : 'reverted';
+      if (status === 'success' && state.allowance !== maxUint256) {
+        state.allowance -= shares;
+      }
+      state.liquidations.push({ nftId: args[1], status });
+    }
+
+    return { status, gasUsed: 100000n, effectiveGasPrice: parseGwei('2'), logs: [], blockNumber: 2n };
+  };
+  const late: PendingTransaction[] = [];
+
+  const gasService = {
+    estimateFees: async () => ({ baseFeePerGas: parseGwei('1'), maxPriorityFeePerGas: parseGwei('1'), maxFeePerGas: parseGwei('3'), capped: false }),
+    isAboveCap: () => false,
+    formatFees: () => '',
+    sendTransaction: async (tx: { to: Address; data: Hex; value?: bigint; nonce: number; gas: bigint }) => ({
+      ...tx,
+      hash: `0x${(++sent).toString(16).padStart(64, '0')}`,
+      value: tx.value ?? 0n,
+      maxFeePerGas: parseGwei('3'),
+      maxPriorityFeePerGas: parseGwei('1'),
+      sentAtBlock: 1n
+    }),
+    // Mined on the next tick, in the order sent, unless the test holds them back past the wait
+    waitForConfirmation: async (pending: PendingTransaction) => {
+      await new Promise(resolve => setImmediate(resolve));
+      if (minedLate) {
+        late.push(pending);
+        return { hash: pending.hash, replacements: 0, cancelled: false, timedOut: true };
+      }
+      const receipt = mine(pending);
+      return { hash: pending.hash, receipt, replacements: 0, cancelled: false, timedOut: false };
+    },
+    waitForNonce: async (_nonce: number, hashes: Hash[]) => {
+      await minedLate;
+      const pending = late.find(transaction => hashes.includes(transaction.hash));
+      return pending && mine(pending);
+    }
+  } as unknown as GasService;
+
+  const profitService = {
+    calculate: async (target: StabilizerPosition): Promise<LiquidationProfitBreakdown> => ({
+      nftId: target.nftId,
+      ethPrice: parseEther('2000'),
+      debtUspd: target.uspdDebt,
+      debtValueEth: parseEther('1'),
+      payoutPercent: 105n,
+      liquidatorNftId: 0n,
+      liquidationThresholdBps: target.liquidationThresholdBps,
+      withinTier: true,
+      targetPayoutStEth: parseEther('1.05'),
+      stEthFromEscrow: parseEther('1.05'),
+      stEthFromInsurance: 0n,
+      stEthReceived: parseEther('1.05'),
+      stEthDiscountBps: 10n,
+      stEthValueEth: parseEther('1.04895'),
+      grossProfitEth: parseEther('0.04895'),
+      gasUnits: 100000n,
+      gasEstimated: true,
+      maxFeePerGas: parseGwei('3'),
+      gasCostEth: parseEther('0.0003'),
+      acquisitionCostEth: 0n,
+      netProfitEth: profits.get(target.nftId) ?? parseEther('0.04865')
+    })
+  } as unknown as ProfitService;
+
+  // Mints one USPD per wei sent, to keep the amounts easy to follow
+  const mintService = {
+    quoteMint: async (amountOut: bigint) => ({ amountOut, ethIn: amountOut, gasEstimate: 100000n, costEth: 0n }),
+    buildMintTransaction: async (amountOut: bigint) => ({ to: MINTER_ADDRESS, data: '0x', value: amountOut, label: 'USPD mint' })
+  } as unknown as MintService;
+  const swapService = {
+    quoteUspd: async () => { throw new Error('No pool'); }
+  } as unknown as SwapService;
+
+  const abiService = { getContractAbi: async () => [...STABILIZER_ABI] } as unknown as AbiService;
+  const walletClient = { account } as unknown as WalletClient;
+
+  const service = new LiquidationService(
+    publicClient,
+    walletClient,
+    STABILIZER_ADDRESS,
+    STABILIZER_ADDRESS,
+    USPD_ADDRESS,
+    CUSPD_ADDRESS,
+    new PriceService(undefined, [], 200, logger),
+    abiService,
+    gasService,
+    swapService,
+    mintService,
+    profitService,
+    0n,
+    '0.01',
+    logger
+  );
+
+  return { service, state };
+}
+
+describe('LiquidationService cUSPD allowance', () => {
+  it('approves once for concurrent liquidations instead of replacing each other\'s allowance', async () => {
+    const { service, state } = chain(0n);
+
+    const results = await Promise.all([
+      service.liquidatePosition(position({ nftId: 1n, backedShares: parseEther('2000') }), priceData(2000)),
+      service.liquidatePosition(position({ nftId: 2n, backedShares: parseEther('3000') }), priceData(2000))
+    ]);
+
+    assert.deepEqual(state.approvals, [maxUint256]);
+    assert.deepEqual(state.liquidations.map(liquidation => liquidation.status), ['success', 'success']);
+    assert.ok(results.every(result => result.success));
+  });
+
+  it('does not approve again while the allowance covers the shares', async () => {
+    const { service, state } = chain(maxUint256);
+
+    const result = await service.liquidatePosition(position(), priceData(2000));
+
+    assert.equal(result.success, true);
+    assert.deepEqual(state.approvals, []);
+  });
+});
+
+describe('LiquidationService position lock', () => {
+  it('keeps a position locked while a liquidation that timed out can still be mined', async () => {
+    let mine!: () => void;
+    const minedLate = new Promise<void>(resolve => { mine = resolve; });
+    const { service, state } = chain(maxUint256, { minedLate });
+
+    const first = await service.liquidatePosition(position({ nftId: 1n }), priceData(2000));
+    assert.equal(first.error, 'Liquidation transaction was not mined in time');
+
+    const second = await service.liquidatePosition(position({ nftId: 1n }), priceData(2000));
+    assert.equal(second.error, 'Liquidation already in flight');
+
+    mine();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(state.liquidations, [{ nftId: 1n, status: 'success' }]);
+    assert.equal(service.getTransactionTracker().isPositionLocked(1n), false);
+  });
+});
+
+describe('LiquidationService.prepareLiquidations', () => {
+  const watchlist = [
+    position({ nftId: 1n, uspdDebt: parseEther('3000') }),
+    position({ nftId: 2n, uspdDebt: parseEther('4000') }),
+    position({ nftId: 3n, uspdDebt: parseEther('5000') })
+  ];
+
+  it('only approves when no funding limit is given', async () => {
+    const { service, state } = chain(0n, { uspdBalance: 0n });
+
+    await service.prepareLiquidations(watchlist, priceData(2000));
+
+    assert.deepEqual(state.approvals, [maxUint256]);
+    assert.deepEqual(state.mints, []);
+  });
+
+  it('funds only the debt of positions that clear the profit threshold', async () => {
+    const { service, state } = chain(maxUint256, {
+      uspdBalance: parseEther('1000'),
+      profits: new Map([[2n, parseEther('0.001')]])
+    });
+
+    await service.prepareLiquidations(watchlist, priceData(2000), parseEther('100000'));
+
+    assert.deepEqual(state.mints, [parseEther('7000')]);
+    assert.equal(state.uspdBalance, parseEther('8000'));
+  });
+
+  it('holds no more than the funding limit', async () => {
+    const { service, state } = chain(maxUint256, { uspdBalance: parseEther('1000') });
+
+    await service.prepareLiquidations(watchlist, priceData(2000), parseEther('5000'));
+
+    assert.deepEqual(state.mints, [parseEther('4000')]);
+  });
+
+  it('does not count USPD reserved for pending liquidations', async () => {
+    const { service, state } = chain(maxUint256, { uspdBalance: parseEther('1000') });
+
+    await service.prepareLiquidations(watchlist, priceData(2000), parseEther('5000'), () => parseEther('1000'));
+
+    assert.deepEqual(state.mints, [parseEther('5000')]);
+  });
+
+  it('buys nothing while the balance covers the limit', async () => {
+    const { service, state } = chain(maxUint256, { uspdBalance: parseEther('6000') });
+
+    await service.prepareLiquidations(watchlist, priceData(2000), parseEther('5000'));
+
+    assert.deepEqual(state.mints, []);
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Notification, NotificationService, parseSeverity } from '../src/services/NotificationService.js';
+import { NotificationChannel } from '../src/services/NotificationChannels.js';
+import { Logger } from '../src/utils/logger.js';
+
+function recorder(): NotificationChannel & { sent: Notification[] } {
+  const sent: Notification[] = [];
+  return { name: 'recorder', sent, send: async notification => { sent.push(notification); } };
+}
+
+function service(channel: NotificationChannel, maxPerMinute: number) {
+  const notifications = new NotificationService(new Logger({ level: 'error' }));
+  notifications.addChannel(channel, { minSeverity: 'info', maxPerMinute, dedupWindowMs: 60 * 1000 });
+  return notifications;
+}
+
+describe('NotificationService rate limit', () => {
+  it('drops alerts over the per-minute limit', async () => {
+    const channel = recorder();
+    const notifications = service(channel, 2);
+
+    for (const title of ['a', 'b', 'c', 'd']) {
+      notifications.notify({ type: 'test', severity: 'error', title, message: title });
+    }
+    await notifications.flush();
+
+    assert.deepEqual(channel.sent.map(notification => notification.title), ['a', 'b']);
+  });
+
+  it('sends critical alerts past the limit and reports what was dropped before them', async () => {
+    const channel = recorder();
+    const notifications = service(channel, 1);
+
+    notifications.notify({ type: 'test', severity: 'error', title: 'a', message: 'a' });
+    notifications.notify({ type: 'test', severity: 'error', title: 'b', message: 'b' });
+    notifications.notify({ type: 'test', severity: 'critical', title: 'c', message: 'c' });
+    await notifications.flush();
+
+    assert.deepEqual(channel.sent.map(notification => notification.title), ['a', 'c']);
+    assert.equal(channel.sent[1]!.suppressed, 1);
+  });
+
+  it('still deduplicates critical alerts', async () => {
+    const channel = recorder();
+    const notifications = service(channel, 1);
+
+    notifications.notify({ type: 'test', severity: 'critical', title: 'a', message: 'a' });
+    notifications.notify({ type: 'test', severity: 'critical', title: 'a', message: 'a' });
+    await notifications.flush();
+
+    assert.equal(channel.sent.length, 1);
+  });
+});
+
+describe('parseSeverity', () => {
+  it('accepts the severities', () => {
+    assert.equal(parseSeverity('critical'), 'critical');
+  });
+
+  it('rejects names inherited from Object', () => {
+    assert.throws(() => parseSeverity('toString'), /Invalid alert severity/);
+    assert.throws(() => parseSeverity('constructor'), /Invalid alert severity/);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseEther } from 'viem';
+import { PricePollScheduler } from '../src/services/PricePollScheduler.js';
+import { Logger } from '../src/utils/logger.js';
+
+const settings = {
+  baseIntervalMs: 1000,
+  burstIntervalMs: 100,
+  calmIntervalMs: 3000,
+  burstMoveBps: 50,
+  burstProximityBps: 200,
+  burstTicks: 2,
+  calmTicks: 2
+};
+
+function scheduler(): PricePollScheduler {
+  return new PricePollScheduler(settings, new Logger({ level: 'error' }));
+}
+
+function ticks(polls: PricePollScheduler, prices: number[]): number[] {
+  return prices.map(usd => polls.nextInterval(parseEther(String(usd))));
+}
+
+describe('PricePollScheduler', () => {
+  it('backs off by half per quiet tick after calmTicks, up to the calm interval', () => {
+    const polls = scheduler();
+
+    assert.deepEqual(ticks(polls, [2000, 2000, 2000, 2000, 2000, 2000]), [1000, 1000, 1500, 2250, 3000, 3000]);
+    assert.equal(polls.getMode(), 'calm');
+  });
+
+  it('bursts on a price move and returns to the base interval after burstTicks', () => {
+    const polls = scheduler();
+
+    // 2000 -> 2010 is a 0.5% move, exactly the burst threshold
+    assert.deepEqual(ticks(polls, [2000, 2010]), [1000, 100]);
+    assert.equal(polls.getMode(), 'burst');
+    assert.deepEqual(ticks(polls, [2010, 2010, 2010]), [100, 100, 1000]);
+    assert.equal(polls.getMode(), 'normal');
+  });
+
+  it('ignores moves below the burst threshold', () => {
+    const polls = scheduler();
+
+    assert.deepEqual(ticks(polls, [2000, 2009]), [1000, 1000]);
+    assert.equal(polls.getMode(), 'normal');
+  });
+
+  it('bursts while a position is close to liquidation', () => {
+    const polls = scheduler();
+
+    assert.equal(polls.nextInterval(parseEther('2000'), 201n), 1000);
+    assert.equal(polls.nextInterval(parseEther('2000'), 200n), 100);
+    assert.equal(polls.getMode(), 'burst');
+  });
+
+  it('restarts the burst countdown on every trigger', () => {
+    const polls = scheduler();
+
+    assert.deepEqual(ticks(polls, [2000, 2020, 2020, 2040, 2040, 2040, 2040]), [1000, 100, 100, 100, 100, 100, 1000]);
+  });
+
+  it('drops straight from the calm interval to burst and starts backing off anew', () => {
+    const polls = scheduler();
+    ticks(polls, [2000, 2000, 2000, 2000, 2000]);
+
+    assert.deepEqual(ticks(polls, [1900, 1900, 1900, 1900, 1900, 1900]), [100, 100, 100, 1000, 1000, 1500]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicClient, parseEther } from 'viem';
+import { PriceService } from '../src/services/PriceService.js';
+import { PriceSource, UspdApiPriceSource } from '../src/services/PriceSources.js';
+import { PriceAttestationVerifier } from '../src/services/PriceAttestationVerifier.js';
+import { Notification, NotificationService } from '../src/services/NotificationService.js';
+import { Logger } from '../src/utils/logger.js';
+import { priceData } from './fixtures.js';
+
+const logger = new Logger({ level: 'error' });
+
+function source(name: string, usd: number): PriceSource {
+  return { name, getPrice: async () => ({ source: name, priceWad: parseEther(String(usd)), timestamp: Date.now() }) };
+}
+
+function failing(name: string): PriceSource {
+  return { name, getPrice: async () => { throw new Error(`${name} is down`); } };
+}
+
+describe('PriceService.checkPriceDeviation', () => {
+  it('measures the signed price against the reference sources only', async () => {
+    // With the signed price in the median this would read as 1.5% off, inside a 2% band
+    const prices = new PriceService(undefined, [source('chainlink', 2000)], 200, logger);
+
+    const check = await prices.checkPriceDeviation(priceData(2060));
+
+    assert.equal(check.verified, true);
+    assert.equal(check.referencePriceWad, parseEther('2000'));
+    assert.equal(check.deviationBps, 300n);
+    assert.equal(check.withinBand, false);
+    assert.deepEqual(check.sources.map(price => price.source), ['chainlink']);
+  });
+
+  it('takes the median of several reference sources', async () => {
+    const prices = new PriceService(undefined, [source('chainlink', 2000), source('uniswap', 2010), source('other', 3000)], 200, logger);
+
+    const check = await prices.checkPriceDeviation(priceData(2030));
+
+    assert.equal(check.referencePriceWad, parseEther('2010'));
+    assert.equal(check.deviationBps, 99n);
+    assert.equal(check.withinBand, true);
+  });
+
+  it('skips failing sources', async () => {
+    const prices = new PriceService(undefined, [failing('chainlink'), source('uniswap', 2000)], 200, logger);
+
+    const check = await prices.checkPriceDeviation(priceData(2000));
+
+    assert.deepEqual(check.failedSources, ['chainlink']);
+    assert.equal(check.verified, true);
+    assert.equal(check.withinBand, true);
+  });
+
+  it('is unverified and outside the band when no reference source answers', async () => {
+    const prices = new PriceService(undefined, [failing('chainlink'), failing('uniswap')], 200, logger);
+
+    const check = await prices.checkPriceDeviation(priceData(2000));
+
+    assert.equal(check.verified, false);
+    assert.equal(check.withinBand, false);
+    assert.equal(check.referencePriceWad, undefined);
+    assert.deepEqual(check.failedSources, ['chainlink', 'uniswap']);
+  });
+});
+
+describe('PriceService.getCurrentEthPrice', () => {
+  it('reports a stale attestation as a warning, not as a rejected one', async () => {
+    const stale = { ...priceData(2000), dataTimestamp: Date.now() - 120 * 1000 };
+    const uspdSource = { fetchSignedPrice: async () => stale } as unknown as UspdApiPriceSource;
+    const prices = new PriceService(uspdSource, [], 200, logger);
+    prices.setAttestationVerifier(new PriceAttestationVerifier({} as PublicClient, '0x0000000000000000000000000000000000000001', 60000, logger));
+    const sent: Notification[] = [];
+    const notifier = new NotificationService(logger);
+    notifier.addChannel({ name: 'recorder', send: async notification => { sent.push(notification); } }, { minSeverity: 'info', maxPerMinute: 10, dedupWindowMs: 60 * 1000 });
+    prices.setNotifier(notifier);
+
+    await assert.rejects(prices.getCurrentEthPrice(), /120s old \(max 60s\)/);
+    await notifier.flush();
+
+    assert.deepEqual(sent.map(notification => [notification.type, notification.severity]), [['price.stale', 'warning']]);
+  });
+});
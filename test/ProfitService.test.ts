@@ -0,0 +1,195 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Address, PublicClient, parseEther, parseGwei } from 'viem';
+import { ProfitService } from '../src/services/ProfitService.js';
+import { GasService } from '../src/services/GasService.js';
+import { PriceService } from '../src/services/PriceService.js';
+import { Logger } from '../src/utils/logger.js';
+import { ESCROW_ADDRESS, INSURANCE_ADDRESS, position, priceData } from './fixtures.js';
+
+const STABILIZER_ADDRESS: Address = '0x0000000000000000000000000000000000005ab1';
+const STETH_ADDRESS: Address = '0x0000000000000000000000000000000000005e7e';
+const LIQUIDATOR_ADDRESS: Address = '0x000000000000000000000000000000000000b075';
+const logger = new Logger({ level: 'error' });
+
+interface ChainState {
+  chainId: number;
+  payoutPercent?: bigint;                 // Missing: the payout read reverts
+  stEthBalances: Record<Address, bigint>;
+  curveRateBps?: bigint;                  // stETH → ETH rate of the Curve pool
+  nftOwners?: Record<string, Address>;    // Owners of liquidator NFTs by ID
+}
+
+function profitService(state: ChainState, liquidatorNftId: bigint = 0n): ProfitService {
+  const publicClient = {
+    chain: { id: state.chainId },
+    readContract: async ({ functionName, args }: { functionName: string; args?: readonly unknown[] }) => {
+      switch (functionName) {
+        case 'liquidationLiquidatorPayoutPercent':
+          if (state.payoutPercent === undefined) throw new Error('execution reverted');
+          return state.payoutPercent;
+        case 'balanceOf':
+          return state.stEthBalances[args![0] as Address] ?? 0n;
+        case 'ownerOf': {
+          const owner = state.nftOwners?.[String(args![0])];
+          if (!owner) throw new Error('ERC721: invalid token ID');
+          return owner;
+        }
+        case 'get_dy':
+          return (args![2] as bigint) * (state.curveRateBps ?? 10000n) / 10000n;
+        default:
+          throw new Error(`Unexpected call ${functionName}`);
+      }
+    }
+  } as unknown as PublicClient;
+
+  const gasService = {
+    estimateFees: async () => ({ baseFeePerGas: parseGwei('4'), maxPriorityFeePerGas: parseGwei('2'), maxFeePerGas: parseGwei('10'), capped: false })
+  } as unknown as GasService;
+
+  return new ProfitService(
+    publicClient,
+    gasService,
+    new PriceService(undefined, [], 200, logger),
+    STABILIZER_ADDRESS,
+    STETH_ADDRESS,
+    INSURANCE_ADDRESS,
+    LIQUIDATOR_ADDRESS,
+    liquidatorNftId,
+    5,
+    10,
+    logger
+  );
+}
+
+const gas = { units: 500000n, estimated: true };
+
+describe('ProfitService.calculate', () => {
+  it('pays the protocol payout from the position escrow and prices stETH on Curve', async () => {
+    const service = profitService({
+      chainId: 1,
+      payoutPercent: 105n,
+      stEthBalances: { [ESCROW_ADDRESS]: parseEther('2') },
+      curveRateBps: 9990n
+    });
+
+    const breakdown = await service.calculate(position(), priceData(2000), gas);
+
+    assert.equal(breakdown.ethPrice, parseEther('2000'));
+    assert.equal(breakdown.debtUspd, parseEther('2000'));
+    assert.equal(breakdown.debtValueEth, parseEther('1'));
+    assert.equal(breakdown.payoutPercent, 105n);
+    assert.equal(breakdown.targetPayoutStEth, parseEther('1.05'));
+    assert.equal(breakdown.stEthFromEscrow, parseEther('1.05'));
+    assert.equal(breakdown.stEthFromInsurance, 0n);
+    assert.equal(breakdown.stEthReceived, parseEther('1.05'));
+    assert.equal(breakdown.stEthValueEth, parseEther('1.04895'));
+    assert.equal(breakdown.stEthDiscountBps, 10n);
+    assert.equal(breakdown.grossProfitEth, parseEther('0.04895'));
+    assert.equal(breakdown.maxFeePerGas, parseGwei('10'));
+    assert.equal(breakdown.gasCostEth, parseEther('0.005'));
+    assert.equal(breakdown.acquisitionCostEth, 0n);
+    assert.equal(breakdown.netProfitEth, parseEther('0.04395'));
+  });
+
+  it('tops up from the insurance escrow when the position escrow runs short', async () => {
+    const service = profitService({
+      chainId: 1,
+      payoutPercent: 105n,
+      stEthBalances: { [ESCROW_ADDRESS]: parseEther('0.8'), [INSURANCE_ADDRESS]: parseEther('0.1') },
+      curveRateBps: 10000n
+    });
+
+    const breakdown = await service.calculate(position(), priceData(2000), gas);
+
+    assert.equal(breakdown.stEthFromEscrow, parseEther('0.8'));
+    assert.equal(breakdown.stEthFromInsurance, parseEther('0.1'));
+    assert.equal(breakdown.stEthReceived, parseEther('0.9'));
+    // Less stETH than the USPD burned is worth
+    assert.equal(breakdown.grossProfitEth, parseEther('-0.1'));
+    assert.equal(breakdown.netProfitEth, parseEther('-0.105'));
+  });
+
+  it('falls back to the configured bonus and stETH discount', async () => {
+    const service = profitService({
+      chainId: 11155111,
+      stEthBalances: { [ESCROW_ADDRESS]: parseEther('2') }
+    });
+
+    const breakdown = await service.calculate(position(), priceData(2000), { units: 500000n, estimated: false });
+
+    assert.equal(breakdown.payoutPercent, 105n);
+    assert.equal(breakdown.stEthDiscountBps, 10n);
+    assert.equal(breakdown.stEthValueEth, parseEther('1.04895'));
+    assert.equal(breakdown.gasEstimated, false);
+  });
+
+  it('charges the USPD acquisition cost against the net profit', async () => {
+    const service = profitService({
+      chainId: 1,
+      payoutPercent: 110n,
+      stEthBalances: { [ESCROW_ADDRESS]: parseEther('2') },
+      curveRateBps: 10000n
+    });
+
+    const breakdown = await service.calculate(position(), priceData(2000), gas, parseEther('0.02'));
+
+    assert.equal(breakdown.grossProfitEth, parseEther('0.1'));
+    assert.equal(breakdown.acquisitionCostEth, parseEther('0.02'));
+    assert.equal(breakdown.netProfitEth, parseEther('0.075'));
+  });
+});
+
+describe('ProfitService liquidator tiers', () => {
+  // 118% is under the 125% threshold of NFT 1 but above the 110% of liquidating without an NFT
+  const atRatio = position({ collateralizationRatioBps: 11800n });
+  const chain = (nftOwners: Record<string, Address>): ChainState => ({
+    chainId: 1,
+    payoutPercent: 105n,
+    stEthBalances: { [ESCROW_ADDRESS]: parseEther('2') },
+    curveRateBps: 10000n,
+    nftOwners
+  });
+
+  it('pays out below the threshold of our liquidator NFT\'s tier', async () => {
+    const service = profitService(chain({ 1: LIQUIDATOR_ADDRESS }), 1n);
+
+    const breakdown = await service.calculate(atRatio, priceData(2000), gas);
+
+    assert.equal(breakdown.liquidatorNftId, 1n);
+    assert.equal(breakdown.liquidationThresholdBps, 12500n);
+    assert.equal(breakdown.withinTier, true);
+    assert.equal(breakdown.stEthReceived, parseEther('1.05'));
+    assert.equal(breakdown.netProfitEth, parseEther('0.045'));
+  });
+
+  it('lowers the threshold for later NFTs', async () => {
+    const service = profitService(chain({ 21: LIQUIDATOR_ADDRESS }), 21n);
+
+    const breakdown = await service.calculate(atRatio, priceData(2000), gas);
+
+    assert.equal(breakdown.liquidationThresholdBps, 11500n);
+    assert.equal(breakdown.withinTier, false);
+    assert.equal(breakdown.stEthReceived, 0n);
+  });
+
+  it('pays nothing above the threshold of liquidating without an NFT', async () => {
+    const service = profitService(chain({}), 0n);
+
+    const breakdown = await service.calculate(atRatio, priceData(2000), gas);
+
+    assert.equal(breakdown.liquidationThresholdBps, 11000n);
+    assert.equal(breakdown.withinTier, false);
+    assert.equal(breakdown.netProfitEth, parseEther('-1.005'));
+  });
+
+  it('does not count on the tier of an NFT our wallet does not own', async () => {
+    const service = profitService(chain({ 1: '0x0000000000000000000000000000000000000bad' }), 1n);
+
+    const breakdown = await service.calculate(atRatio, priceData(2000), gas);
+
+    assert.equal(breakdown.liquidatorNftId, 0n);
+    assert.equal(breakdown.liquidationThresholdBps, 11000n);
+    assert.equal(breakdown.withinTier, false);
+  });
+});
@@ -0,0 +1,78 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Hex, keccak256 } from 'viem';
+import { RpcPool } from '../src/services/RpcPool.js';
+import { Logger } from '../src/utils/logger.js';
+
+const SIGNED_TRANSACTION: Hex = '0x02f86b0180843b9aca00850ba43b74008252089400000000000000000000000000000000000000000180c0';
+
+type Handler = (method: string) => { result: unknown } | { error: { code: number; message: string } } | 'hang';
+
+/**
+ * A JSON-RPC node answering through the given handler; 'hang' never answers
+ */
+async function node(handler: Handler): Promise<{ url: string; server: http.Server; methods: string[] }> {
+  const methods: string[] = [];
+  const server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => { body += chunk; });
+    request.on('end', () => {
+      const { id, method } = JSON.parse(body) as { id: number; method: string };
+      methods.push(method);
+      const answer = handler(method);
+      if (answer === 'hang') {
+        return;
+      }
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ jsonrpc: '2.0', id, ...answer }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return { url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, server, methods };
+}
+
+describe('RpcPool sending transactions', () => {
+  const nodes: http.Server[] = [];
+  let timingOut: Awaited<ReturnType<typeof node>>;
+  let knowing: Awaited<ReturnType<typeof node>>;
+  let rejecting: Awaited<ReturnType<typeof node>>;
+
+  before(async () => {
+    timingOut = await node(() => 'hang');
+    knowing = await node(() => ({ error: { code: -32000, message: 'already known' } }));
+    rejecting = await node(() => ({ error: { code: -32000, message: 'nonce too low' } }));
+    nodes.push(timingOut.server, knowing.server, rejecting.server);
+  });
+
+  after(() => {
+    for (const server of nodes) {
+      server.closeAllConnections();
+      server.close();
+    }
+  });
+
+  function pool(urls: string[]) {
+    const rpcPool = new RpcPool('http', urls, { requestTimeoutMs: 200 }, new Logger({ level: 'error' }));
+    return rpcPool.transport()({ retryCount: 0 });
+  }
+
+  it('returns the hash when the endpoint it fails over to already knows the transaction', async () => {
+    const transport = pool([timingOut.url, knowing.url]);
+
+    const hash = await transport.request({ method: 'eth_sendRawTransaction', params: [SIGNED_TRANSACTION] });
+
+    assert.equal(hash, keccak256(SIGNED_TRANSACTION));
+    assert.deepEqual(knowing.methods, ['eth_sendRawTransaction']);
+  });
+
+  it('still throws transactions the node rejects', async () => {
+    const transport = pool([rejecting.url, knowing.url]);
+
+    await assert.rejects(
+      transport.request({ method: 'eth_sendRawTransaction', params: [SIGNED_TRANSACTION] }),
+      /nonce too low/
+    );
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PublicClient, WalletClient } from 'viem';
+import { privateKeyToAccount } from 'viem/accounts';
+import { TransactionTracker } from '../src/services/TransactionTracker.js';
+import { Logger } from '../src/utils/logger.js';
+
+const account = privateKeyToAccount('0x1111111111111111111111111111111111111111111111111111111111111111');
+
+/**
+ * A tracker whose chain reports `chain.nonce` as the pending transaction count
+ */
+function tracker(chain: { nonce: number }) {
+  const publicClient = {
+    getTransactionCount: async () => chain.nonce
+  } as unknown as PublicClient;
+  const walletClient = { account } as unknown as WalletClient;
+  return new TransactionTracker(publicClient, walletClient, new Logger({ level: 'error' }));
+}
+
+describe('TransactionTracker', () => {
+  it('hands out consecutive nonces to concurrent senders', async () => {
+    const transactions = tracker({ nonce: 5 });
+
+    const nonces = await Promise.all([transactions.allocateNonce(), transactions.allocateNonce(), transactions.allocateNonce()]);
+
+    assert.deepEqual(nonces.sort(), [5, 6, 7]);
+  });
+
+  it('does not hand out an allocated nonce again when a resync happens while it is in flight', async () => {
+    const chain = { nonce: 5 };
+    const transactions = tracker(chain);
+
+    const failed = await transactions.allocateNonce();
+    const inFlight = await transactions.allocateNonce();
+    assert.deepEqual([failed, inFlight], [5, 6]);
+
+    // The send of 5 fails while 6 is allocated but not yet counted by the chain
+    await transactions.releaseNonce(failed, true);
+    assert.equal(await transactions.allocateNonce(), 7);
+  });
+
+  it('runs a deferred resync once the last allocated nonce is released', async () => {
+    const chain = { nonce: 5 };
+    const transactions = tracker(chain);
+
+    const failed = await transactions.allocateNonce();
+    const dropped = await transactions.allocateNonce();
+    await transactions.releaseNonce(failed, true);
+
+    // 6 is dropped as well, so the chain never moved and 5 is free again
+    await transactions.releaseNonce(dropped);
+    assert.equal(await transactions.allocateNonce(), 5);
+  });
+
+  it('resyncs right away when nothing else is in flight', async () => {
+    const chain = { nonce: 5 };
+    const transactions = tracker(chain);
+
+    const mined = await transactions.allocateNonce();
+    chain.nonce = 9;  // Transactions sent from elsewhere
+    await transactions.releaseNonce(mined, true);
+
+    assert.equal(await transactions.allocateNonce(), 9);
+  });
+
+  it('keeps a position locked while a transaction sent for it is pending', () => {
+    const transactions = tracker({ nonce: 5 });
+
+    assert.equal(transactions.lockPosition(1n), true);
+    transactions.trackSubmitted(5, `0x${'1'.repeat(64)}`, 'liquidation of position 1', 1n);
+    transactions.unlockPosition(1n);
+
+    assert.equal(transactions.lockPosition(1n), false);
+    assert.equal(transactions.lockPosition(2n), true);
+
+    transactions.trackSettled(5, 'mined');
+    assert.equal(transactions.lockPosition(1n), true);
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { maxUint256 } from 'viem';
+import { calculateCollateralizationRatioBps, calculateLiquidationPriceWad } from '../src/services/PositionService.js';
+
+interface RatioFixture {
+  name: string;
+  collateralAmount: bigint;
+  backedShares: bigint;
+  yieldFactor: bigint;
+  price: bigint;
+  priceDecimals: number;
+  expectedRatioBps: bigint;
+}
+
+/**
+ * Inputs and the ratio the contract's formula gives for them
+ *
+ * Expected values were worked out by hand from the integer arithmetic in the contract source
+ * (liability, then collateral value, then the ratio, each truncated), not read from a chain. They
+ * pin down the truncation order, not parity with deployed contracts.
+ */
+const RATIO_FIXTURES: RatioFixture[] = [
+  {
+    name: 'exactly at 110%',
+    collateralAmount: 1_100000000000000000n,
+    backedShares: 2000_000000000000000000n,
+    yieldFactor: 1_000000000000000000n,
+    price: 2000_000000000000000000n,
+    priceDecimals: 18,
+    expectedRatioBps: 11000n
+  },
+  {
+    name: 'yield factor above one, 8-decimal price',
+    collateralAmount: 1_234567890123456789n,
+    backedShares: 2500_000000000000000007n,
+    yieldFactor: 1_052345678901234567n,
+    price: 3456_78901234n,
+    priceDecimals: 8,
+    expectedRatioBps: 16221n
+  },
+  {
+    name: 'a wei of yield pushes the ratio under 110%',
+    collateralAmount: 1_000000000000000000n,
+    backedShares: 3000_000000000000000000n,
+    yieldFactor: 1_000000000000000001n,
+    price: 3300_000000000000000000n,
+    priceDecimals: 18,
+    expectedRatioBps: 10999n
+  },
+  {
+    // A single division over all inputs would give 3837427
+    name: 'dust amounts where each truncation counts',
+    collateralAmount: 140892n,
+    backedShares: 596854n,
+    yieldFactor: 1_018189305743064004n,
+    price: 1655_20022588n,
+    priceDecimals: 8,
+    expectedRatioBps: 3837430n
+  },
+  {
+    name: 'no collateral left',
+    collateralAmount: 0n,
+    backedShares: 1000_000000000000000000n,
+    yieldFactor: 1_000000000000000000n,
+    price: 2000_000000000000000000n,
+    priceDecimals: 18,
+    expectedRatioBps: 0n
+  },
+  {
+    name: 'no liability',
+    collateralAmount: 5_000000000000000000n,
+    backedShares: 0n,
+    yieldFactor: 1_000000000000000000n,
+    price: 2000_000000000000000000n,
+    priceDecimals: 18,
+    expectedRatioBps: maxUint256
+  },
+  {
+    name: 'liability truncated to zero',
+    collateralAmount: 5_000000000000000000n,
+    backedShares: 1n,
+    yieldFactor: 999999999999999999n,
+    price: 2000_000000000000000000n,
+    priceDecimals: 18,
+    expectedRatioBps: maxUint256
+  }
+];
+
+describe('calculateCollateralizationRatioBps', () => {
+  for (const fixture of RATIO_FIXTURES) {
+    it(`truncates each step: ${fixture.name}`, () => {
+      const ratio = calculateCollateralizationRatioBps(
+        fixture.collateralAmount,
+        fixture.backedShares,
+        fixture.yieldFactor,
+        fixture.price,
+        fixture.priceDecimals
+      );
+      assert.equal(ratio, fixture.expectedRatioBps);
+    });
+  }
+});
+
+describe('calculateLiquidationPriceWad', () => {
+  it('is the price at which the ratio reaches the threshold', () => {
+    const collateralAmount = 1_234567890123456789n;
+    const backedShares = 2500_000000000000000007n;
+    const yieldFactor = 1_052345678901234567n;
+
+    const price = calculateLiquidationPriceWad(collateralAmount, backedShares, yieldFactor, 11000n);
+
+    assert.equal(calculateCollateralizationRatioBps(collateralAmount, backedShares, yieldFactor, price, 18), 10999n);
+    assert.equal(calculateCollateralizationRatioBps(collateralAmount, backedShares, yieldFactor, price + 10n ** 15n, 18), 11000n);
+  });
+
+  it('reports 0 without liability and max uint256 without collateral', () => {
+    assert.equal(calculateLiquidationPriceWad(10n ** 18n, 0n, 10n ** 18n, 11000n), 0n);
+    assert.equal(calculateLiquidationPriceWad(0n, 10n ** 21n, 10n ** 18n, 11000n), maxUint256);
+  });
+});
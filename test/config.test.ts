@@ -0,0 +1,156 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig, redactConfig } from '../src/config.js';
+
+const PRIVATE_KEY = `0x${'11'.repeat(32)}`;
+const OTHER_KEY = `0x${'22'.repeat(32)}`;
+
+const ENV = {
+  RPC_URL: 'https://rpc.example.org/key',
+  WS_RPC_URL: 'wss://ws.example.org/key',
+  PRIVATE_KEY,
+  ETHERSCAN_API_KEY: 'etherscan'
+};
+
+function errorsOf(load: () => unknown): string {
+  try {
+    load();
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+  assert.fail('Expected the configuration to be rejected');
+}
+
+describe('loadConfig', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  function configFile(name: string, content: string): string {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  }
+
+  it('fills in defaults and runs one chain from the network and wallet settings', () => {
+    const config = loadConfig(ENV, []);
+
+    assert.equal(config.liquidation.minProfitThreshold, '0.01');
+    assert.equal(config.liquidation.watchlistPrefetchUspd, false);
+    assert.equal(config.gas.maxWaitBlocks, 25);
+    assert.deepEqual(config.chains, [{
+      chainId: 1,
+      rpcUrls: ['https://rpc.example.org/key'],
+      wsRpcUrls: ['wss://ws.example.org/key'],
+      privateKey: PRIVATE_KEY,
+      liquidatorNftId: 0n
+    }]);
+  });
+
+  it('parses comma-separated endpoint lists', () => {
+    const config = loadConfig({ ...ENV, RPC_URL: 'https://a.example.org, https://b.example.org' }, []);
+
+    assert.deepEqual(config.chains[0]!.rpcUrls, ['https://a.example.org', 'https://b.example.org']);
+  });
+
+  it('reports every invalid or missing setting at once', () => {
+    const message = errorsOf(() => loadConfig({
+      RPC_URL: 'ftp://rpc.example.org',
+      WS_RPC_URL: ENV.WS_RPC_URL,
+      PRIVATE_KEY: '0x1234',
+      MAX_CONCURRENT_LIQUIDATIONS: '0',
+      DRY_RUN: 'yes'
+    }, []));
+
+    assert.match(message, /RPC_URL \(network\.rpcUrls\) must be a http or https URL/);
+    assert.match(message, /PRIVATE_KEY \(wallet\.privateKey\) must be a 0x-prefixed 32-byte hex string/);
+    assert.match(message, /MAX_CONCURRENT_LIQUIDATIONS \(liquidation\.maxConcurrent\) must be between 1 and 50, got 0/);
+    assert.match(message, /DRY_RUN \(dryRun\.enabled\) must be true or false/);
+    assert.match(message, /ETHERSCAN_API_KEY \(etherscan\.apiKey\) is required/);
+    // Settings that failed to parse are not reported as missing as well
+    assert.doesNotMatch(message, /RPC_URL \(network\.rpcUrls\) is required/);
+  });
+
+  it('rejects log levels and alert severities inherited from Object', () => {
+    const message = errorsOf(() => loadConfig({ ...ENV, LOG_LEVEL: 'constructor', ALERT_MIN_SEVERITY: 'toString' }, []));
+
+    assert.match(message, /LOG_LEVEL \(logging\.level\) Invalid log level "constructor"/);
+    assert.match(message, /ALERT_MIN_SEVERITY \(alerts\.minSeverity\) Invalid alert severity "toString"/);
+  });
+
+  it('reads a YAML config file and lets the environment override it', () => {
+    const file = configFile('config.yaml', [
+      'liquidation:',
+      '  minProfitThreshold: "0.05"',
+      '  maxConcurrent: 5',
+      'logging:',
+      '  serviceLevels:',
+      '    GasService: debug'
+    ].join('\n'));
+
+    const config = loadConfig({ ...ENV, MAX_CONCURRENT_LIQUIDATIONS: '7' }, ['--config', file]);
+
+    assert.equal(config.liquidation.minProfitThreshold, '0.05');
+    assert.equal(config.liquidation.maxConcurrent, 7);
+    assert.deepEqual(config.logging.serviceLevels, { GasService: 'debug' });
+  });
+
+  it('reports unknown keys in the config file, including names inherited from Object', () => {
+    const file = configFile('unknown.json', JSON.stringify({ liquidation: { minProfit: '0.05' }, constructor: {} }));
+
+    const message = errorsOf(() => loadConfig({ ...ENV, CONFIG_FILE: file }, []));
+
+    assert.match(message, /liquidation\.minProfit in the config file is not a known setting/);
+    assert.match(message, /constructor in the config file is not a known setting/);
+  });
+
+  it('runs the listed chains with their own endpoints and the shared wallet as fallback', () => {
+    const config = loadConfig({
+      ETHERSCAN_API_KEY: 'etherscan',
+      PRIVATE_KEY,
+      CHAIN_IDS: '1,10',
+      CHAIN_1_RPC_URL: 'https://mainnet.example.org',
+      CHAIN_1_WS_RPC_URL: 'wss://mainnet.example.org',
+      CHAIN_10_RPC_URL: 'https://optimism.example.org',
+      CHAIN_10_WS_RPC_URL: 'wss://optimism.example.org',
+      CHAIN_10_PRIVATE_KEY: OTHER_KEY
+    }, []);
+
+    assert.deepEqual(config.chains.map(chain => [chain.chainId, chain.rpcUrls[0], chain.privateKey]), [
+      [1, 'https://mainnet.example.org', PRIVATE_KEY],
+      [10, 'https://optimism.example.org', OTHER_KEY]
+    ]);
+  });
+
+  it('requires endpoints for every listed chain and rejects duplicates', () => {
+    const message = errorsOf(() => loadConfig({
+      ETHERSCAN_API_KEY: 'etherscan',
+      PRIVATE_KEY,
+      CHAIN_IDS: '1,1',
+      CHAIN_1_RPC_URL: 'https://mainnet.example.org'
+    }, []));
+
+    assert.match(message, /CHAIN_1_WS_RPC_URL \(chains\.1\.wsRpcUrls\) is required/);
+    assert.match(message, /CHAIN_IDS \(network\.chainIds\) lists a chain more than once/);
+  });
+
+  it('applies the command-line shorthands', () => {
+    const config = loadConfig(ENV, ['--dry-run', '--verbose']);
+
+    assert.equal(config.dryRun.enabled, true);
+    assert.equal(config.logging.level, 'debug');
+  });
+});
+
+describe('redactConfig', () => {
+  it('hides secrets and keeps the host of secret URLs', () => {
+    const redacted = redactConfig(loadConfig(ENV, []));
+
+    assert.equal(redacted.wallet!.privateKey, '<redacted>');
+    assert.equal(redacted.etherscan!.apiKey, '<redacted>');
+    assert.deepEqual(redacted.network!.rpcUrls, ['https://rpc.example.org/<redacted>']);
+    assert.deepEqual(redacted['chains.1']!.privateKey, '<redacted>');
+  });
+});
@@ -0,0 +1,37 @@
+import { Address, parseEther } from 'viem';
+import { PriceData } from '../src/services/PriceService.js';
+import { StabilizerPosition } from '../src/services/PositionService.js';
+
+export const ESCROW_ADDRESS: Address = '0x00000000000000000000000000000000000000e5';
+export const INSURANCE_ADDRESS: Address = '0x00000000000000000000000000000000000000f1';
+
+/**
+ * Signed price data for an ETH price in whole dollars
+ */
+export function priceData(usd: number): PriceData {
+  return {
+    price: parseEther(String(usd)).toString(),
+    decimals: 18,
+    dataTimestamp: Date.now(),
+    requestTimestamp: Date.now(),
+    assetPair: 'MORPHER:ETH_USD',
+    signature: '0x'
+  };
+}
+
+export function position(overrides: Partial<StabilizerPosition> = {}): StabilizerPosition {
+  return {
+    nftId: 1n,
+    owner: '0x0000000000000000000000000000000000000a11',
+    positionEscrowAddress: ESCROW_ADDRESS,
+    collateralAmount: parseEther('1'),
+    backedShares: parseEther('2000'),
+    uspdDebt: parseEther('2000'),
+    collateralizationRatioBps: 10500n,
+    isLiquidatable: true,
+    liquidationThresholdBps: 11000n,
+    liquidationPriceWad: parseEther('2095'),
+    lastUpdated: Date.now(),
+    ...overrides
+  };
+}
@@ -0,0 +1,24 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseLogLevel, parseServiceLevels } from '../src/utils/logger.js';
+
+describe('parseLogLevel', () => {
+  it('accepts levels in any case', () => {
+    assert.equal(parseLogLevel(' DEBUG '), 'debug');
+  });
+
+  it('rejects names inherited from Object', () => {
+    assert.throws(() => parseLogLevel('toString'), /Invalid log level/);
+    assert.throws(() => parseLogLevel('__proto__'), /Invalid log level/);
+  });
+});
+
+describe('parseServiceLevels', () => {
+  it('parses per-service overrides', () => {
+    assert.deepEqual(parseServiceLevels('PositionService=debug, GasService=warn'), { PositionService: 'debug', GasService: 'warn' });
+  });
+
+  it('rejects entries without a level', () => {
+    assert.throws(() => parseServiceLevels('PositionService'), /expected <Service>=<level>/);
+  });
+});